@@ -9,6 +9,13 @@ BEGIN
   END IF;
 END$$;
 
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'clustering_status') THEN
+    CREATE TYPE clustering_status AS ENUM ('pending', 'clustered');
+  END IF;
+END$$;
+
 CREATE TABLE IF NOT EXISTS messages (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   external_message_id text NOT NULL,
@@ -18,22 +25,61 @@ CREATE TABLE IF NOT EXISTS messages (
   visitor_user_id text,
   visitor_username text,
   text text NOT NULL,
+  -- TextNormalizer output of `text` with personal data redacted; the trigram
+  -- match and the embedding use it, `text` is kept for display
+  normalized_text text,
   embedding vector(1536),
+  -- EMBEDDING_PROVIDER that produced `embedding` (NULL when it was skipped)
+  embedding_provider text,
+  -- Model that produced `embedding`; only same-model vectors are compared
+  embedding_model text,
+  -- Set when the provider was unavailable at ingest; the message waits for
+  -- the pending-embeddings worker to embed and re-cluster it
+  embedding_pending_since timestamptz,
+  -- 'pending' while an async ingest waits for the ingest worker to place it
+  clustering_status clustering_status NOT NULL DEFAULT 'clustered',
+  -- False for greetings, thanks and reactions (REPLY_NEED_CLASSIFIER); such
+  -- messages are stored but never clustered
+  needs_reply boolean NOT NULL DEFAULT true,
   created_at timestamptz NOT NULL DEFAULT now(),
   replied_at timestamptz,
   is_paid_dm boolean NOT NULL DEFAULT false,
-  raw_payload jsonb
+  raw_payload jsonb,
+  -- Personal data redacted at ingest, as [{"type": "EMAIL", "count": 1}];
+  -- NULL when nothing was found
+  redaction_counts jsonb,
+  -- Result returned by the first ingest, replayed on webhook redelivery
+  ingest_result jsonb
 );
 
+-- Databases created before these columns existed
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS normalized_text text,
+  ADD COLUMN IF NOT EXISTS embedding_provider text,
+  ADD COLUMN IF NOT EXISTS embedding_model text,
+  ADD COLUMN IF NOT EXISTS embedding_pending_since timestamptz,
+  ADD COLUMN IF NOT EXISTS clustering_status clustering_status NOT NULL DEFAULT 'clustered',
+  ADD COLUMN IF NOT EXISTS needs_reply boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS redaction_counts jsonb,
+  ADD COLUMN IF NOT EXISTS ingest_result jsonb;
+
 CREATE TABLE IF NOT EXISTS clusters (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   creator_id text NOT NULL,
   status cluster_status NOT NULL DEFAULT 'open',
   response_text text,
+  -- Mean embedding of the cluster's members, refreshed on every membership change
+  centroid vector(1536),
+  -- Embedding model the centroid was averaged over
+  centroid_model text,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
 
+ALTER TABLE clusters
+  ADD COLUMN IF NOT EXISTS centroid vector(1536),
+  ADD COLUMN IF NOT EXISTS centroid_model text;
+
 CREATE TABLE IF NOT EXISTS cluster_messages (
   cluster_id uuid NOT NULL REFERENCES clusters(id) ON DELETE CASCADE,
   message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
@@ -47,19 +93,109 @@ CREATE TABLE IF NOT EXISTS response_templates (
   creator_id text NOT NULL,
   question_text text,
   question_embedding vector(1536) NOT NULL,
+  question_embedding_provider text,
+  question_embedding_model text,
   response_text text NOT NULL,
   usage_count integer NOT NULL DEFAULT 1,
   last_used_at timestamptz NOT NULL DEFAULT now(),
   created_at timestamptz NOT NULL DEFAULT now()
 );
 
+ALTER TABLE response_templates
+  ADD COLUMN IF NOT EXISTS question_embedding_provider text,
+  ADD COLUMN IF NOT EXISTS question_embedding_model text;
+
+-- Per-creator clustering settings; a null column falls back to the
+-- environment default
+CREATE TABLE IF NOT EXISTS creator_settings (
+  creator_id text PRIMARY KEY,
+  similarity_threshold double precision,
+  trigram_threshold double precision,
+  suggestion_threshold double precision,
+  suggestion_limit integer,
+  min_channel_count integer,
+  retain_raw_text boolean,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Transactional outbox for bulk replies: one row per target channel, written in
+-- the actionCluster transaction and drained by the delivery worker.
+-- No FK to clusters: fully actioned clusters are deleted but their delivery
+-- history stays queryable.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'delivery_status') THEN
+    CREATE TYPE delivery_status AS ENUM ('pending', 'delivered', 'failed');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS reply_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_id uuid NOT NULL,
+  creator_id text NOT NULL,
+  channel_id text NOT NULL,
+  channel_cid text,
+  response_text text NOT NULL,
+  status delivery_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Background re-embedding under a new embedding model. Each batch picks rows
+-- not yet on target_model, so a restarted job resumes where it stopped.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'reembed_status') THEN
+    CREATE TYPE reembed_status AS ENUM ('running', 'completed', 'failed');
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS reembed_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_model text NOT NULL,
+  status reembed_status NOT NULL DEFAULT 'running',
+  total_messages integer NOT NULL,
+  processed_messages integer NOT NULL DEFAULT 0,
+  total_templates integer NOT NULL,
+  processed_templates integer NOT NULL DEFAULT 0,
+  last_error text,
+  -- Set while a worker embeds a batch, so other workers wait their turn
+  batch_claimed_until timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
 CREATE INDEX IF NOT EXISTS idx_messages_creator ON messages (creator_id);
 CREATE INDEX IF NOT EXISTS idx_messages_channel ON messages (channel_id);
+-- Redeliveries used to be stored twice; keep the earliest copy before the
+-- unique index is first created
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_class WHERE relname = 'idx_messages_creator_external') THEN
+    DELETE FROM messages m
+    USING messages earlier
+    WHERE earlier.creator_id = m.creator_id
+      AND earlier.external_message_id = m.external_message_id
+      AND (earlier.created_at, earlier.id) < (m.created_at, m.id);
+  END IF;
+END$$;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_creator_external ON messages (creator_id, external_message_id);
 CREATE INDEX IF NOT EXISTS idx_messages_replied ON messages (replied_at);
+CREATE INDEX IF NOT EXISTS idx_messages_clustering_queue ON messages (created_at) WHERE clustering_status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_messages_embedding_pending ON messages (embedding_pending_since) WHERE embedding_pending_since IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_clusters_creator ON clusters (creator_id);
 CREATE INDEX IF NOT EXISTS idx_clusters_status ON clusters (status);
 CREATE INDEX IF NOT EXISTS idx_cluster_messages_cluster ON cluster_messages (cluster_id);
 CREATE INDEX IF NOT EXISTS idx_response_templates_creator ON response_templates (creator_id);
+CREATE INDEX IF NOT EXISTS idx_reply_deliveries_cluster ON reply_deliveries (cluster_id);
+CREATE INDEX IF NOT EXISTS idx_reply_deliveries_due ON reply_deliveries (next_attempt_at) WHERE status = 'pending';
+-- At most one re-embed job runs at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reembed_jobs_running ON reembed_jobs ((true)) WHERE status = 'running';
 CREATE INDEX IF NOT EXISTS idx_response_templates_embedding ON response_templates 
   USING hnsw (question_embedding vector_cosine_ops) 
   WITH (m = 16, ef_construction = 64);
@@ -71,6 +207,12 @@ CREATE INDEX IF NOT EXISTS idx_response_templates_embedding ON response_template
 CREATE INDEX IF NOT EXISTS idx_messages_embedding ON messages 
   USING hnsw (embedding vector_cosine_ops) 
   WITH (m = 16, ef_construction = 64);
+CREATE INDEX IF NOT EXISTS idx_clusters_centroid ON clusters 
+  USING hnsw (centroid vector_cosine_ops) 
+  WITH (m = 16, ef_construction = 64);
 
--- Trigram index for text similarity (pre-filtering before vector search)
-CREATE INDEX IF NOT EXISTS idx_messages_text_trgm ON messages USING gist (text gist_trgm_ops);
+-- Trigram index for text similarity (pre-filtering before vector search);
+-- covers the normalized text the match compares, raw text for older rows.
+-- Replaces idx_messages_text_trgm, which indexed the raw text only.
+DROP INDEX IF EXISTS idx_messages_text_trgm;
+CREATE INDEX IF NOT EXISTS idx_messages_match_text_trgm ON messages USING gist ((COALESCE(normalized_text, text)) gist_trgm_ops);
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useMutation } from "@apollo/client/react";
-import { INGEST_MESSAGE } from "../graphql/mutations";
+import { INGEST_MESSAGES } from "../graphql/mutations";
 import { generateSeedMessages } from "../data/seedMessages";
 
 const CREATOR_ID = "00000000-0000-4000-a000-000000000001";
@@ -12,7 +12,7 @@ export default function SeedButton() {
     const stored = localStorage.getItem("seedCount");
     return stored ? parseInt(stored, 10) : 0;
   });
-  const [ingestMessage] = useMutation(INGEST_MESSAGE);
+  const [ingestMessages] = useMutation(INGEST_MESSAGES);
 
   const handleSeed = async () => {
     setIsSeeding(true);
@@ -24,39 +24,33 @@ export default function SeedButton() {
     const seedMessages = generateSeedMessages(seedCount, 5); // 5 messages per category = 20 total
 
     try {
-      for (let i = 0; i < seedMessages.length; i++) {
-        const msg = seedMessages[i];
+      const inputs = seedMessages.map((msg, i) => {
         // Each user gets a unique ID per seed run (simulating different visitors asking same questions)
         const uniqueUserId = `${msg.userId}-${iteration}`;
         const uniqueUsername = `${msg.username} ${iteration % 1000}`; // Add unique suffix to username
-        const result = await ingestMessage({
-          variables: {
-            input: {
-              creatorId: CREATOR_ID,
-              messageId: `seed-msg-${iteration}-${i}`,
-              text: msg.text,
-              channelId: `channel-${uniqueUserId}`, // Static per user (1:1 relationship)
-              channelCid: `messaging:channel-${uniqueUserId}`,
-              visitorUserId: uniqueUserId,
-              visitorUsername: uniqueUsername,
-              createdAt: new Date().toISOString(),
-              isPaidDm: false,
-              rawPayload: {
-                user: {
-                  id: uniqueUserId,
-                  name: msg.username,
-                  image: `https://i.pravatar.cc/150?u=${uniqueUserId}`,
-                },
-              },
+        return {
+          creatorId: CREATOR_ID,
+          messageId: `seed-msg-${iteration}-${i}`,
+          text: msg.text,
+          channelId: `channel-${uniqueUserId}`, // Static per user (1:1 relationship)
+          channelCid: `messaging:channel-${uniqueUserId}`,
+          visitorUserId: uniqueUserId,
+          visitorUsername: uniqueUsername,
+          createdAt: new Date().toISOString(),
+          isPaidDm: false,
+          rawPayload: {
+            user: {
+              id: uniqueUserId,
+              name: msg.username,
+              image: `https://i.pravatar.cc/150?u=${uniqueUserId}`,
             },
           },
-        });
-        console.log(
-          `Seeded message ${i + 1}/${seedMessages.length}`,
-          result.data,
-        );
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
+        };
+      });
+
+      // Single batch call: one transaction and one embedding request
+      const result = await ingestMessages({ variables: { inputs } });
+      console.log(`Seeded ${seedMessages.length} messages`, result.data);
       const nextSeedCount = seedCount + 1;
       setSeedCount(nextSeedCount); // Increment for next seed run
       localStorage.setItem("seedCount", nextSeedCount.toString()); // Persist
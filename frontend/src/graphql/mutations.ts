@@ -9,6 +9,19 @@ export const INGEST_MESSAGE = gql`
   }
 `;
 
+export const INGEST_MESSAGES = gql`
+  mutation IngestMessages($inputs: [IngestMessageInput!]!) {
+    ingestMessages(inputs: $inputs) {
+      index
+      error
+      result {
+        messageId
+        clusterId
+      }
+    }
+  }
+`;
+
 export const ACTION_CLUSTER = gql`
   mutation ActionCluster(
     $id: ID!
@@ -7,7 +7,11 @@ import { join } from "path";
 import { DbModule } from "./db/db.module";
 import { CacheModule } from "./cache/cache.module";
 import { ClustersModule } from "./modules/clusters/clusters.module";
+import { CreatorSettingsModule } from "./modules/creator-settings/creator-settings.module";
+import { DeliveriesModule } from "./modules/deliveries/deliveries.module";
 import { MessagesModule } from "./modules/messages/messages.module";
+import { ReembeddingModule } from "./modules/reembedding/reembedding.module";
+import { WorkersModule } from "./workers/workers.module";
 
 @Module({
   imports: [
@@ -21,8 +25,12 @@ import { MessagesModule } from "./modules/messages/messages.module";
     }),
     DbModule,
     CacheModule,
+    CreatorSettingsModule,
     MessagesModule,
     ClustersModule,
+    DeliveriesModule,
+    ReembeddingModule,
+    WorkersModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,34 @@
+import { Field, Float, Int, ObjectType } from "@nestjs/graphql";
+
+// Counted per key since the process started
+@ObjectType()
+export class CacheStats {
+  // Served by the in-process LRU tier
+  @Field(() => Int)
+  memoryHits!: number;
+
+  // Missed in memory, found in Redis
+  @Field(() => Int)
+  redisHits!: number;
+
+  // Found in neither tier
+  @Field(() => Int)
+  misses!: number;
+
+  // Share of lookups served from either tier, 0..1 (0 before any lookup)
+  @Field(() => Float)
+  hitRate!: number;
+
+  // LRU entries dropped to stay within CACHE_MEMORY_MAX_ENTRIES
+  @Field(() => Int)
+  evictions!: number;
+
+  @Field(() => Int)
+  memoryEntries!: number;
+
+  @Field(() => Int)
+  memoryMaxEntries!: number;
+
+  @Field()
+  redisConnected!: boolean;
+}
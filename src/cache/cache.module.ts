@@ -1,9 +1,10 @@
 import { Module, Global } from "@nestjs/common";
+import { CacheResolver } from "./cache.resolver";
 import { CacheService } from "./cache.service";
 
 @Global()
 @Module({
-  providers: [CacheService],
+  providers: [CacheService, CacheResolver],
   exports: [CacheService],
 })
 export class CacheModule {}
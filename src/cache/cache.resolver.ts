@@ -0,0 +1,15 @@
+import { Query, Resolver } from "@nestjs/graphql";
+import { CacheStats } from "./cache-stats.model";
+import { CacheService } from "./cache.service";
+
+@Resolver()
+export class CacheResolver {
+  constructor(private cache: CacheService) {}
+
+  @Query(() => CacheStats, {
+    description: "Admin: hit, miss and eviction counters of the cache",
+  })
+  cacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+}
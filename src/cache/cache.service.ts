@@ -6,24 +6,64 @@ import {
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { createClient, RedisClientType } from "redis";
+import { CacheStats } from "./cache-stats.model";
+import { LruCache } from "./lru-cache";
 
+// Redis reconnect backoff: 100ms doubling per attempt, capped at 30s
+const RECONNECT_BASE_MS = 100;
+const RECONNECT_MAX_MS = 30_000;
+
+/**
+ * Two-tier cache: a bounded in-process LRU (CACHE_MEMORY_MAX_ENTRIES, 0
+ * disables it) in front of Redis. Reads check memory first and keep Redis
+ * hits in memory; writes go to both. Without Redis (REDIS_URL unset or the
+ * connection down) the memory tier still serves repeated keys.
+ */
 @Injectable()
 export class CacheService implements OnModuleInit, OnModuleDestroy {
   private client: RedisClientType | null = null;
   private readonly logger = new Logger(CacheService.name);
   private isConnected = false;
+  // Set on the first connect; until then a retry is not a lost connection
+  private hasConnected = false;
+  private readonly memory: LruCache;
+  private memoryHits = 0;
+  private redisHits = 0;
+  private misses = 0;
 
-  constructor(private config: ConfigService) {}
+  constructor(private config: ConfigService) {
+    this.memory = new LruCache(
+      Number(this.config.get<string>("CACHE_MEMORY_MAX_ENTRIES") ?? 1000),
+    );
+  }
 
   async onModuleInit() {
     const redisUrl = this.config.get<string>("REDIS_URL");
     if (!redisUrl) {
-      this.logger.warn("REDIS_URL not configured, caching disabled");
+      this.logger.warn(
+        "REDIS_URL not configured, using the in-memory cache only",
+      );
       return;
     }
 
     try {
-      this.client = createClient({ url: redisUrl });
+      this.client = createClient({
+        url: redisUrl,
+        socket: {
+          reconnectStrategy: (retries, cause) => {
+            const delayMs = Math.min(
+              RECONNECT_BASE_MS * 2 ** retries,
+              RECONNECT_MAX_MS,
+            );
+            this.logger.warn(
+              this.hasConnected
+                ? `Redis connection lost (${cause.message}), reconnect attempt ${retries + 1} in ${delayMs}ms`
+                : `Could not connect to Redis (${cause.message}), attempt ${retries + 2} in ${delayMs}ms`,
+            );
+            return delayMs;
+          },
+        },
+      });
 
       this.client.on("error", (err) => {
         this.logger.error("Redis error", err);
@@ -33,6 +73,11 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
       this.client.on("connect", () => {
         this.logger.log("Connected to Redis");
         this.isConnected = true;
+        this.hasConnected = true;
+      });
+
+      this.client.on("reconnecting", () => {
+        this.isConnected = false;
       });
 
       await this.client.connect();
@@ -49,17 +94,50 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
   }
 
   async get(key: string): Promise<string | null> {
-    if (!this.isConnected || !this.client) return null;
+    const [value] = await this.mget([key]);
+    return value;
+  }
 
-    try {
-      return await this.client.get(key);
-    } catch (error) {
-      this.logger.error(`Error getting key ${key}`, error);
-      return null;
+  // Several keys in one round-trip (MGET for the keys not in memory); null for misses.
+  // Redis hits are kept in memory for no longer than Redis keeps them
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    const values = keys.map((key) => this.memory.get(key));
+    const missing = keys.filter((_, index) => values[index] === null);
+    this.memoryHits += keys.length - missing.length;
+
+    if (missing.length > 0 && this.isConnected && this.client) {
+      try {
+        // PTTL alongside the values, so memory drops a key when Redis does.
+        // Sent in the same tick, so the client pipelines them in one round-trip
+        const client = this.client;
+        const [remote, ttls] = await Promise.all([
+          client.mGet(missing),
+          Promise.all(missing.map((key) => client.pTTL(key))),
+        ]);
+        let next = 0;
+        keys.forEach((key, index) => {
+          if (values[index] !== null) return;
+          const value = remote[next];
+          const ttlMs = ttls[next];
+          next += 1;
+          if (value !== null) {
+            values[index] = value;
+            // -1: the key never expires
+            this.memory.set(key, value, ttlMs > 0 ? ttlMs / 1000 : undefined);
+            this.redisHits += 1;
+          }
+        });
+      } catch (error) {
+        this.logger.error(`Error getting ${missing.length} keys`, error);
+      }
     }
+
+    this.misses += values.filter((value) => value === null).length;
+    return values;
   }
 
   async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.memory.set(key, value, ttlSeconds);
     if (!this.isConnected || !this.client) return;
 
     try {
@@ -73,7 +151,33 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Several keys in one round-trip (MULTI)
+  async setMany(
+    entries: Array<{ key: string; value: string }>,
+    ttlSeconds?: number,
+  ): Promise<void> {
+    for (const { key, value } of entries) {
+      this.memory.set(key, value, ttlSeconds);
+    }
+    if (!this.isConnected || !this.client || entries.length === 0) return;
+
+    try {
+      const multi = this.client.multi();
+      for (const { key, value } of entries) {
+        if (ttlSeconds) {
+          multi.setEx(key, ttlSeconds, value);
+        } else {
+          multi.set(key, value);
+        }
+      }
+      await multi.exec();
+    } catch (error) {
+      this.logger.error(`Error setting ${entries.length} keys`, error);
+    }
+  }
+
   async del(key: string): Promise<void> {
+    this.memory.delete(key);
     if (!this.isConnected || !this.client) return;
 
     try {
@@ -82,4 +186,19 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
       this.logger.error(`Error deleting key ${key}`, error);
     }
   }
+
+  getStats(): CacheStats {
+    const hits = this.memoryHits + this.redisHits;
+    const lookups = hits + this.misses;
+    return {
+      memoryHits: this.memoryHits,
+      redisHits: this.redisHits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : hits / lookups,
+      evictions: this.memory.evictions,
+      memoryEntries: this.memory.size,
+      memoryMaxEntries: this.memory.maxEntries,
+      redisConnected: this.isConnected,
+    };
+  }
 }
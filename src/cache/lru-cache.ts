@@ -0,0 +1,64 @@
+type Entry = {
+  value: string;
+  // Epoch ms, null for entries without a TTL
+  expiresAt: number | null;
+};
+
+/**
+ * Bounded in-process cache that evicts the least recently used entry first.
+ * A Map keeps insertion order and every read re-inserts its entry, so the
+ * first key is always the least recently used one.
+ */
+export class LruCache {
+  private readonly entries = new Map<string, Entry>();
+  private evicted = 0;
+
+  constructor(
+    readonly maxEntries: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Entries dropped to stay within maxEntries (expired ones not included)
+  get evictions(): number {
+    return this.evicted;
+  }
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttlSeconds?: number): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlSeconds ? this.now() + ttlSeconds * 1000 : null,
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evicted += 1;
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,88 @@
+import "reflect-metadata";
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { NestFactory } from "@nestjs/core";
+import { parseArgs } from "util";
+import { CacheModule } from "../cache/cache.module";
+import { MessagesModule } from "../modules/messages/messages.module";
+import { ReplayService } from "../modules/messages/replay.service";
+
+/**
+ * Replay a creator's pending messages with candidate thresholds.
+ *
+ *   npm run replay -- --creator <id> [--similarity 0.7] [--trigram 0.8] [--json]
+ *
+ * Runs in a scratch schema that is rolled back; live clusters are untouched.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    CacheModule,
+    MessagesModule,
+  ],
+})
+class ReplayCliModule {}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      creator: { type: "string" },
+      similarity: { type: "string" },
+      trigram: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.creator) {
+    console.error(
+      "Usage: npm run replay -- --creator <id> [--similarity 0.7] [--trigram 0.8] [--json]",
+    );
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(ReplayCliModule, {
+    logger: ["error", "warn"],
+  });
+  try {
+    const result = await app
+      .get(ReplayService)
+      .replayCreatorMessages(values.creator, {
+        similarityThreshold: values.similarity
+          ? Number(values.similarity)
+          : undefined,
+        trigramThreshold: values.trigram ? Number(values.trigram) : undefined,
+      });
+
+    if (values.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const sizes = (buckets: typeof result.sizeDistribution) =>
+      buckets.map((bucket) => `${bucket.size}:${bucket.count}`).join(" ");
+
+    console.log(
+      `Replayed ${result.messageCount} messages with similarity ${result.similarityThreshold}, trigram ${result.trigramThreshold}`,
+    );
+    console.log(
+      `Clusters: ${result.clusterCount} (live ${result.liveClusterCount})`,
+    );
+    console.log(`Sizes (size:count): ${sizes(result.sizeDistribution)}`);
+    console.log(`Live sizes:         ${sizes(result.liveSizeDistribution)}`);
+    console.log(
+      `Pairs joined: ${result.joinedPairs}, pairs split: ${result.splitPairs}`,
+    );
+    for (const change of result.changedMessages) {
+      console.log(
+        `  ${change.messageId} "${change.text}" live mates ${change.liveClusterMateIds.length}, replay mates ${change.replayClusterMateIds.length}`,
+      );
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+import { PoolClient } from "pg";
+
+/**
+ * Recompute the stored centroid of each cluster as the mean embedding of its
+ * members. Must run after every membership change (add, remove, supersede,
+ * merge, move, split) so centroid matching sees the current cluster.
+ * Paid DMs are left out, so a paid DM's own cluster has no centroid and is
+ * never matched. Only members embedded with `model` (the active embedding
+ * model) are averaged; the others wait for the re-embed job.
+ */
+export async function refreshClusterCentroids(
+  client: PoolClient,
+  clusterIds: string[],
+  model: string,
+): Promise<void> {
+  if (clusterIds.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `
+      UPDATE clusters c
+      SET centroid = (
+            SELECT AVG(m.embedding)
+            FROM cluster_messages cm
+            JOIN messages m
+              ON m.id = cm.message_id
+            WHERE cm.cluster_id = c.id
+              AND m.embedding IS NOT NULL
+              AND m.embedding_model = $2
+              AND m.is_paid_dm = false
+          ),
+          centroid_model = $2
+      WHERE c.id = ANY($1::uuid[])
+    `,
+    [clusterIds, model],
+  );
+}
@@ -1,10 +1,13 @@
 import { Module } from '@nestjs/common'
 import { DbModule } from '../../db/db.module'
+import { CreatorSettingsModule } from '../creator-settings/creator-settings.module'
+import { DeliveriesModule } from '../deliveries/deliveries.module'
+import { EmbeddingsModule } from '../embeddings/embeddings.module'
 import { ClustersResolver } from './clusters.resolver'
 import { ClustersService } from './clusters.service'
 
 @Module({
-  imports: [DbModule],
+  imports: [DbModule, DeliveriesModule, CreatorSettingsModule, EmbeddingsModule],
   providers: [ClustersService, ClustersResolver]
 })
 export class ClustersModule {}
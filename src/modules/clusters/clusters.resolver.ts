@@ -64,6 +64,30 @@ export class ClustersResolver {
     return this.clusters.removeClusterMessage(clusterId, messageId);
   }
 
+  @Mutation(() => Cluster)
+  mergeClusters(
+    @Args("targetId", { type: () => ID }) targetId: string,
+    @Args("sourceIds", { type: () => [ID] }) sourceIds: string[],
+  ): Promise<Cluster> {
+    return this.clusters.mergeClusters(targetId, sourceIds);
+  }
+
+  @Mutation(() => Cluster)
+  moveClusterMessage(
+    @Args("messageId", { type: () => ID }) messageId: string,
+    @Args("targetClusterId", { type: () => ID }) targetClusterId: string,
+  ): Promise<Cluster> {
+    return this.clusters.moveClusterMessage(messageId, targetClusterId);
+  }
+
+  @Mutation(() => Cluster)
+  splitClusterMessages(
+    @Args("clusterId", { type: () => ID }) clusterId: string,
+    @Args("messageIds", { type: () => [ID] }) messageIds: string[],
+  ): Promise<Cluster> {
+    return this.clusters.splitClusterMessages(clusterId, messageIds);
+  }
+
   @Mutation(() => Boolean)
   async deleteCluster(
     @Args("id", { type: () => ID }) id: string,
@@ -1,8 +1,15 @@
 import { Injectable } from "@nestjs/common";
+import { PoolClient } from "pg";
 import { DbService } from "../../db/db.service";
+import { CreatorSettingsService } from "../creator-settings/creator-settings.service";
+import { EmbeddingsService } from "../embeddings/embeddings.service";
+import { DeliveriesService } from "../deliveries/deliveries.service";
+import { refreshClusterCentroids } from "./cluster-centroid";
 import { Cluster } from "./cluster.model";
 import { ClusterStatus } from "./cluster-status.enum";
+import { ClusteringStatus } from "../messages/clustering-status.enum";
 import { Message } from "../messages/message.model";
+import { MessageRow, mapMessageRow } from "../messages/message-row";
 
 type ClusterRow = {
   id: string;
@@ -18,24 +25,14 @@ type ClusterRow = {
   visitor_avatar_urls: string[] | null;
 };
 
-type MessageRow = {
-  id: string;
-  external_message_id: string;
-  creator_id: string;
-  channel_id: string;
-  channel_cid: string | null;
-  visitor_user_id: string | null;
-  visitor_username: string | null;
-  text: string;
-  created_at: Date;
-  replied_at: Date | null;
-  is_paid_dm: boolean;
-  raw_payload: Record<string, unknown> | null;
-};
-
 @Injectable()
 export class ClustersService {
-  constructor(private db: DbService) {}
+  constructor(
+    private db: DbService,
+    private deliveries: DeliveriesService,
+    private settings: CreatorSettingsService,
+    private embeddings: EmbeddingsService,
+  ) {}
 
   async listClusters(
     creatorId: string,
@@ -46,6 +43,11 @@ export class ClustersService {
     let statusFilter = "";
     let channelCountFilter = "";
 
+    // Fall back to the creator's default when the caller passes no filter
+    if (minChannelCount === undefined || minChannelCount === null) {
+      ({ minChannelCount } = await this.settings.getSettings(creatorId));
+    }
+
     if (status) {
       params.push(status);
       statusFilter = `AND c.status = $${params.length}`;
@@ -169,7 +171,7 @@ export class ClustersService {
   async getClusterMessages(clusterId: string): Promise<Message[]> {
     const messages = await this.db.query<MessageRow>(
       `
-        SELECT m.*
+        SELECT m.*, cm.cluster_id
         FROM messages m
         INNER JOIN cluster_messages cm
           ON cm.message_id = m.id
@@ -179,7 +181,7 @@ export class ClustersService {
       [clusterId],
     );
 
-    return messages.rows.map((row: MessageRow) => this.mapMessageRow(row));
+    return messages.rows.map(mapMessageRow);
   }
 
   async actionCluster(
@@ -191,75 +193,116 @@ export class ClustersService {
       throw new Error("At least one channel must be selected");
     }
 
+    const before = await this.getCluster(id);
+    let clusterDeleted = false;
+
     await this.db.withClient(async (client) => {
       await client.query("BEGIN");
       try {
-        // 1. Get cluster info, earliest message embedding, and question text
-        const clusterData = await client.query(
-          `SELECT c.creator_id, m.embedding, m.text as question_text
-           FROM clusters c
-           JOIN cluster_messages cm ON c.id = cm.cluster_id
-           JOIN messages m ON cm.message_id = m.id
-           WHERE c.id = $1
-           ORDER BY m.created_at ASC
-           LIMIT 1`,
+        // 1. Lock the cluster
+        const cluster = await client.query<{ creator_id: string }>(
+          `SELECT creator_id FROM clusters WHERE id = $1 FOR UPDATE`,
           [id],
         );
 
-        if (!clusterData.rows[0]) {
+        if (!cluster.rows[0]) {
           throw new Error("Cluster not found");
         }
 
-        const { creator_id, embedding, question_text } = clusterData.rows[0];
+        const creator_id = cluster.rows[0].creator_id;
 
-        // 2. Check if this exact response template already exists
-        const existingTemplate = await client.query(
-          `SELECT id, usage_count 
-           FROM response_templates 
-           WHERE creator_id = $1 
-             AND response_text = $2
-             AND question_embedding = $3
+        // 2. Save the reply as a template keyed on the earliest question with
+        //    an embedding of the active model. Members stored while the
+        //    provider was down (or matched by trigram only) have none; with
+        //    no such member the reply is still sent, just not remembered
+        const question = await client.query(
+          `SELECT m.embedding, m.embedding_provider, m.embedding_model, m.text as question_text
+           FROM cluster_messages cm
+           JOIN messages m ON cm.message_id = m.id
+           WHERE cm.cluster_id = $1
+             AND m.embedding IS NOT NULL
+             AND m.embedding_model = $2
+           ORDER BY m.created_at ASC
            LIMIT 1`,
-          [creator_id, responseText, embedding],
+          [id, this.embeddings.modelName],
         );
 
-        if (existingTemplate.rows.length > 0) {
-          // Template exists - just increment usage count
-          await client.query(
-            `UPDATE response_templates 
-             SET usage_count = usage_count + 1,
-                 last_used_at = now()
-             WHERE id = $1`,
-            [existingTemplate.rows[0].id],
-          );
-        } else {
-          // New template - insert it with question text
-          await client.query(
-            `INSERT INTO response_templates (
-              creator_id, 
-              question_embedding,
-              question_text,
-              response_text, 
-              usage_count,
-              last_used_at
-            ) VALUES ($1, $2, $3, $4, 1, now())`,
-            [creator_id, embedding, question_text, responseText],
+        if (question.rows[0]) {
+          await this.saveTemplate(
+            client,
+            creator_id,
+            responseText,
+            question.rows[0],
           );
         }
 
-        // 3. Delete all messages in cluster (CASCADE handles cluster_messages)
+        // 3. Stamp the selected channels' messages as replied and take them
+        //    out of the cluster. The rows are kept so a redelivery is still
+        //    recognised as a duplicate instead of being answered again
+        const replied = await client.query<{
+          id: string;
+          channel_id: string;
+          channel_cid: string | null;
+        }>(
+          `UPDATE messages m
+           SET replied_at = now()
+           FROM cluster_messages cm
+           WHERE cm.message_id = m.id
+             AND cm.cluster_id = $1
+             AND m.channel_id = ANY($2)
+           RETURNING m.id, m.channel_id, m.channel_cid`,
+          [id, channelIds],
+        );
+
+        if (!replied.rowCount || replied.rowCount === 0) {
+          throw new Error("None of the selected channels are in this cluster");
+        }
+
         await client.query(
-          `DELETE FROM messages 
-           WHERE id IN (
-             SELECT message_id 
-             FROM cluster_messages 
-             WHERE cluster_id = $1
-           )`,
+          `DELETE FROM cluster_messages
+           WHERE cluster_id = $1
+             AND message_id = ANY($2)`,
+          [id, replied.rows.map((row) => row.id)],
+        );
+
+        // 3.5. Queue the reply for each answered channel (outbox, same transaction)
+        await this.deliveries.enqueueReplies(
+          client,
+          id,
+          creator_id,
+          responseText,
+          replied.rows.map((row) => ({
+            channelId: row.channel_id,
+            channelCid: row.channel_cid,
+          })),
+        );
+
+        // 4. Delete cluster once every channel has been answered,
+        //    otherwise keep it open for the remaining channels
+        const emptyCheck = await client.query(
+          `SELECT EXISTS (
+             SELECT 1 FROM cluster_messages WHERE cluster_id = $1
+           ) AS has_messages`,
           [id],
         );
 
-        // 4. Delete cluster
-        await client.query(`DELETE FROM clusters WHERE id = $1`, [id]);
+        if (!emptyCheck.rows[0].has_messages) {
+          await client.query(`DELETE FROM clusters WHERE id = $1`, [id]);
+          clusterDeleted = true;
+        } else {
+          await client.query(
+            `UPDATE clusters
+             SET response_text = $2,
+                 updated_at = now()
+             WHERE id = $1`,
+            [id, responseText],
+          );
+          await refreshClusterCentroids(
+            client,
+            [id],
+            this.embeddings.modelName,
+          );
+        }
 
         await client.query("COMMIT");
       } catch (error) {
@@ -268,20 +311,19 @@ export class ClustersService {
       }
     });
 
-    // Return minimal representation since cluster is deleted
+    if (!clusterDeleted) {
+      return this.getCluster(id);
+    }
+
+    // Cluster is gone - return its last state marked as actioned
     return {
-      id,
-      creatorId: "", // Not needed in response
+      ...before,
       status: ClusterStatus.Actioned,
       responseText,
-      createdAt: new Date(),
       updatedAt: new Date(),
       channelCount: 0,
-      previewText: undefined,
-      representativeVisitor: undefined,
       additionalVisitorCount: 0,
-      visitorAvatarUrls: undefined,
-      messages: undefined,
+      messages: [],
     };
   }
 
@@ -299,18 +341,21 @@ export class ClustersService {
           throw new Error("Cluster not found");
         }
 
-        // Delete all messages in cluster (CASCADE handles cluster_messages)
+        // Dismiss the messages: stamped as replied so they are neither
+        // re-clustered nor ingested again on redelivery
         await client.query(
-          `DELETE FROM messages 
-           WHERE id IN (
-             SELECT message_id 
-             FROM cluster_messages 
-             WHERE cluster_id = $1
-           )`,
+          `UPDATE messages
+           SET replied_at = now()
+           WHERE replied_at IS NULL
+             AND id IN (
+               SELECT message_id 
+               FROM cluster_messages 
+               WHERE cluster_id = $1
+             )`,
           [id],
         );
 
-        // Delete cluster
+        // Delete cluster (CASCADE handles cluster_messages)
         await client.query(`DELETE FROM clusters WHERE id = $1`, [id]);
 
         await client.query("COMMIT");
@@ -343,32 +388,103 @@ export class ClustersService {
           throw new Error("Message not found in cluster");
         }
 
-        // Check if cluster is now empty and delete it
-        const emptyCheck = await client.query(
+        // Delete the cluster if it is now empty, otherwise bump its timestamp
+        clusterDeleted = await this.deleteClusterIfEmpty(client, clusterId);
+
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+
+    if (clusterDeleted) {
+      return null;
+    }
+
+    return this.getCluster(clusterId);
+  }
+
+  /**
+   * Fold the source clusters into the target cluster (e.g. one intent that the
+   * similarity threshold split in two). Refused when two of the clusters hold
+   * messages from the same channel, since the merged cluster could keep only
+   * one of them.
+   */
+  async mergeClusters(targetId: string, sourceIds: string[]): Promise<Cluster> {
+    const sources = Array.from(new Set(sourceIds)).filter(
+      (sourceId) => sourceId !== targetId,
+    );
+    if (sources.length === 0) {
+      throw new Error("At least one source cluster is required");
+    }
+
+    await this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const clusters = await client.query<{
+          id: string;
+          creator_id: string;
+          status: ClusterStatus;
+        }>(
           `
-            SELECT EXISTS (
-              SELECT 1 FROM cluster_messages WHERE cluster_id = $1
-            ) AS has_messages
+            SELECT id, creator_id, status
+            FROM clusters
+            WHERE id = ANY($1)
+            FOR UPDATE
           `,
-          [clusterId],
+          [[targetId, ...sources]],
         );
 
-        if (!emptyCheck.rows[0].has_messages) {
-          // Cluster is empty - delete it
-          await client.query(`DELETE FROM clusters WHERE id = $1`, [clusterId]);
-          clusterDeleted = true;
-        } else {
-          // Cluster still has messages - update timestamp
-          await client.query(
-            `
-              UPDATE clusters
-              SET updated_at = now()
-              WHERE id = $1
-            `,
-            [clusterId],
+        if (clusters.rows.length !== sources.length + 1) {
+          throw new Error("Cluster not found");
+        }
+
+        const creatorIds = new Set(clusters.rows.map((row) => row.creator_id));
+        if (creatorIds.size > 1) {
+          throw new Error(
+            "Cannot merge clusters that belong to different creators",
           );
         }
 
+        if (clusters.rows.some((row) => row.status !== ClusterStatus.Open)) {
+          throw new Error("Only open clusters can be merged");
+        }
+
+        await client.query(
+          `
+            UPDATE cluster_messages
+            SET cluster_id = $1
+            WHERE cluster_id = ANY($2)
+          `,
+          [targetId, sources],
+        );
+
+        const shared = await this.sharedChannels(client, targetId);
+        if (shared.length > 0) {
+          throw new Error(
+            `Cannot merge clusters that hold messages from the same channel (${shared.join(", ")})`,
+          );
+        }
+
+        await client.query(`DELETE FROM clusters WHERE id = ANY($1)`, [
+          sources,
+        ]);
+
+        await client.query(
+          `
+            UPDATE clusters
+            SET updated_at = now()
+            WHERE id = $1
+          `,
+          [targetId],
+        );
+        await refreshClusterCentroids(
+          client,
+          [targetId],
+          this.embeddings.modelName,
+        );
+
         await client.query("COMMIT");
       } catch (error) {
         await client.query("ROLLBACK");
@@ -376,26 +492,185 @@ export class ClustersService {
       }
     });
 
-    if (clusterDeleted) {
-      return null;
+    return this.getCluster(targetId);
+  }
+
+  /**
+   * Move a message into another cluster of the same creator. The message may
+   * currently be in a cluster or detached. Its previous cluster is deleted if
+   * this leaves it empty. Refused when the target already holds a message
+   * from the same channel. Returns the target cluster.
+   */
+  async moveClusterMessage(
+    messageId: string,
+    targetClusterId: string,
+  ): Promise<Cluster> {
+    await this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const target = await this.lockOpenCluster(client, targetClusterId);
+
+        const message = await client.query<{
+          creator_id: string;
+          cluster_id: string | null;
+          clustering_status: ClusteringStatus;
+          replied_at: Date | null;
+          is_paid_dm: boolean;
+          needs_reply: boolean;
+        }>(
+          `
+            SELECT
+              m.creator_id,
+              cm.cluster_id,
+              m.clustering_status,
+              m.replied_at,
+              m.is_paid_dm,
+              m.needs_reply
+            FROM messages m
+            LEFT JOIN cluster_messages cm
+              ON cm.message_id = m.id
+            WHERE m.id = $1
+            FOR UPDATE OF m
+          `,
+          [messageId],
+        );
+
+        if (!message.rows[0]) {
+          throw new Error("Message not found");
+        }
+
+        if (message.rows[0].creator_id !== target.creator_id) {
+          throw new Error(
+            "Cannot move a message to a cluster of a different creator",
+          );
+        }
+
+        // Same eligibility as the ingest pipeline
+        if (message.rows[0].replied_at || message.rows[0].is_paid_dm) {
+          throw new Error("Replied messages and paid DMs cannot be clustered");
+        }
+
+        // The ingest worker would place it a second time
+        if (message.rows[0].clustering_status === ClusteringStatus.Pending) {
+          throw new Error("Message is still queued for clustering");
+        }
+
+        if (!message.rows[0].needs_reply) {
+          throw new Error("Messages that need no reply are not clustered");
+        }
+
+        const sourceClusterId = message.rows[0].cluster_id;
+        if (sourceClusterId === targetClusterId) {
+          throw new Error("Message is already in this cluster");
+        }
+
+        await client.query(
+          `
+            INSERT INTO cluster_messages (cluster_id, message_id)
+            VALUES ($1, $2)
+            ON CONFLICT (message_id) DO UPDATE SET
+              cluster_id = EXCLUDED.cluster_id
+          `,
+          [targetClusterId, messageId],
+        );
+
+        const shared = await this.sharedChannels(client, targetClusterId);
+        if (shared.length > 0) {
+          throw new Error(
+            `Target cluster already holds a message from channel ${shared[0]}`,
+          );
+        }
+
+        await this.deleteClusterIfEmpty(client, targetClusterId);
+        if (sourceClusterId) {
+          await this.deleteClusterIfEmpty(client, sourceClusterId);
+        }
+
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+
+    return this.getCluster(targetClusterId);
+  }
+
+  /**
+   * Split the given messages out of a cluster into a new cluster.
+   * The original cluster is deleted if no messages are left. Returns the new
+   * cluster.
+   */
+  async splitClusterMessages(
+    clusterId: string,
+    messageIds: string[],
+  ): Promise<Cluster> {
+    const ids = Array.from(new Set(messageIds));
+    if (ids.length === 0) {
+      throw new Error("At least one message must be selected");
     }
 
-    return this.getCluster(clusterId);
+    const newClusterId = await this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const source = await this.lockOpenCluster(client, clusterId);
+
+        const clusterInsert = await client.query<{ id: string }>(
+          `
+            INSERT INTO clusters (creator_id)
+            VALUES ($1)
+            RETURNING id
+          `,
+          [source.creator_id],
+        );
+        const splitClusterId = clusterInsert.rows[0].id;
+
+        const moved = await client.query(
+          `
+            UPDATE cluster_messages
+            SET cluster_id = $1
+            WHERE cluster_id = $2
+              AND message_id = ANY($3)
+          `,
+          [splitClusterId, clusterId, ids],
+        );
+
+        if (moved.rowCount !== ids.length) {
+          throw new Error("Message not found in cluster");
+        }
+
+        await refreshClusterCentroids(
+          client,
+          [splitClusterId],
+          this.embeddings.modelName,
+        );
+        await this.deleteClusterIfEmpty(client, clusterId);
+
+        await client.query("COMMIT");
+        return splitClusterId;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+
+    return this.getCluster(newClusterId);
   }
 
   async getSuggestedResponses(
     clusterId: string,
     creatorId: string,
   ): Promise<Array<{ text: string; similarity: number }>> {
-    // Get cluster's earliest message embedding
+    // Get cluster's earliest message embedding (of the active model)
     const result = await this.db.query<{ embedding: string }>(
       `SELECT m.embedding
        FROM cluster_messages cm
        JOIN messages m ON cm.message_id = m.id
        WHERE cm.cluster_id = $1
+         AND m.embedding_model = $2
        ORDER BY m.created_at ASC
        LIMIT 1`,
-      [clusterId],
+      [clusterId, this.embeddings.modelName],
     );
 
     if (!result.rows[0]?.embedding) {
@@ -403,8 +678,9 @@ export class ClustersService {
     }
 
     const embedding = result.rows[0].embedding;
+    const settings = await this.settings.getSettings(creatorId);
 
-    // Find top 3 most similar past responses (similarity > 0.8)
+    // Find the creator's top N most similar past responses above the cutoff
     const suggestions = await this.db.query<{
       response_text: string;
       similarity: number;
@@ -413,13 +689,20 @@ export class ClustersService {
               (1 - (question_embedding <=> $1)) as similarity
        FROM response_templates
        WHERE creator_id = $2
-         AND (1 - (question_embedding <=> $1)) > 0.8
+         AND question_embedding_model = $5
+         AND (1 - (question_embedding <=> $1)) > $3
        ORDER BY
          similarity DESC,
          usage_count DESC,
          last_used_at DESC
-       LIMIT 3`,
-      [embedding, creatorId],
+       LIMIT $4`,
+      [
+        embedding,
+        creatorId,
+        settings.suggestionThreshold,
+        settings.suggestionLimit,
+        this.embeddings.modelName,
+      ],
     );
 
     return suggestions.rows.map((row) => ({
@@ -428,6 +711,150 @@ export class ClustersService {
     }));
   }
 
+  private async lockOpenCluster(
+    client: PoolClient,
+    clusterId: string,
+  ): Promise<{ id: string; creator_id: string }> {
+    const cluster = await client.query<{
+      id: string;
+      creator_id: string;
+      status: ClusterStatus;
+    }>(
+      `
+        SELECT id, creator_id, status
+        FROM clusters
+        WHERE id = $1
+        FOR UPDATE
+      `,
+      [clusterId],
+    );
+
+    if (!cluster.rows[0]) {
+      throw new Error("Cluster not found");
+    }
+
+    if (cluster.rows[0].status !== ClusterStatus.Open) {
+      throw new Error("Cluster is not open");
+    }
+
+    return cluster.rows[0];
+  }
+
+  // Count a reuse of an identical template, or insert a new one
+  private async saveTemplate(
+    client: PoolClient,
+    creatorId: string,
+    responseText: string,
+    question: {
+      embedding: string;
+      embedding_provider: string;
+      embedding_model: string;
+      question_text: string;
+    },
+  ): Promise<void> {
+    const existingTemplate = await client.query(
+      `SELECT id, usage_count 
+       FROM response_templates 
+       WHERE creator_id = $1 
+         AND response_text = $2
+         AND question_embedding = $3
+       LIMIT 1`,
+      [creatorId, responseText, question.embedding],
+    );
+
+    if (existingTemplate.rows.length > 0) {
+      await client.query(
+        `UPDATE response_templates 
+         SET usage_count = usage_count + 1,
+             last_used_at = now()
+         WHERE id = $1`,
+        [existingTemplate.rows[0].id],
+      );
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO response_templates (
+        creator_id, 
+        question_embedding,
+        question_embedding_provider,
+        question_embedding_model,
+        question_text,
+        response_text, 
+        usage_count,
+        last_used_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, 1, now())`,
+      [
+        creatorId,
+        question.embedding,
+        question.embedding_provider,
+        question.embedding_model,
+        question.question_text,
+        responseText,
+      ],
+    );
+  }
+
+  /**
+   * Delete the cluster if it has no messages left, otherwise bump its
+   * `updated_at` and refresh its centroid. Returns true if the cluster was
+   * deleted.
+   */
+  private async deleteClusterIfEmpty(
+    client: PoolClient,
+    clusterId: string,
+  ): Promise<boolean> {
+    const emptyCheck = await client.query(
+      `
+        SELECT EXISTS (
+          SELECT 1 FROM cluster_messages WHERE cluster_id = $1
+        ) AS has_messages
+      `,
+      [clusterId],
+    );
+
+    if (!emptyCheck.rows[0].has_messages) {
+      await client.query(`DELETE FROM clusters WHERE id = $1`, [clusterId]);
+      return true;
+    }
+
+    await client.query(
+      `
+        UPDATE clusters
+        SET updated_at = now()
+        WHERE id = $1
+      `,
+      [clusterId],
+    );
+    await refreshClusterCentroids(
+      client,
+      [clusterId],
+      this.embeddings.modelName,
+    );
+    return false;
+  }
+
+  // Channels with more than one message in the cluster, which breaks the
+  // one-message-per-channel rule
+  private async sharedChannels(
+    client: PoolClient,
+    clusterId: string,
+  ): Promise<string[]> {
+    const shared = await client.query<{ channel_id: string }>(
+      `
+        SELECT m.channel_id
+        FROM cluster_messages cm
+        JOIN messages m ON m.id = cm.message_id
+        WHERE cm.cluster_id = $1
+        GROUP BY m.channel_id
+        HAVING COUNT(*) > 1
+        ORDER BY m.channel_id
+      `,
+      [clusterId],
+    );
+    return shared.rows.map((row) => row.channel_id);
+  }
+
   private mapClusterRow(row: ClusterRow): Cluster {
     return {
       id: row.id,
@@ -444,26 +871,4 @@ export class ClustersService {
       messages: undefined,
     };
   }
-
-  private mapMessageRow(row: MessageRow): Message {
-    // Extract avatar URL from rawPayload.user.image
-    const avatarUrl = (row.raw_payload as { user?: { image?: string } })?.user
-      ?.image;
-
-    return {
-      id: row.id,
-      externalMessageId: row.external_message_id,
-      creatorId: row.creator_id,
-      channelId: row.channel_id,
-      channelCid: row.channel_cid || undefined,
-      visitorUserId: row.visitor_user_id || undefined,
-      visitorUsername: row.visitor_username || undefined,
-      visitorAvatarUrl: avatarUrl || undefined,
-      text: row.text,
-      createdAt: row.created_at,
-      repliedAt: row.replied_at || undefined,
-      isPaidDm: row.is_paid_dm,
-      rawPayload: row.raw_payload || undefined,
-    };
-  }
 }
@@ -0,0 +1,35 @@
+import { Field, Float, ID, Int, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class CreatorSettings {
+  @Field(() => ID)
+  creatorId!: string;
+
+  // Vector cosine similarity needed to join a cluster
+  @Field(() => Float)
+  similarityThreshold!: number;
+
+  // pg_trgm similarity for near-exact matches (skips the embedding call)
+  @Field(() => Float)
+  trigramThreshold!: number;
+
+  // Minimum similarity for a past response to be suggested
+  @Field(() => Float)
+  suggestionThreshold!: number;
+
+  @Field(() => Int)
+  suggestionLimit!: number;
+
+  // Applied to the clusters query when no minChannelCount is passed
+  @Field(() => Int)
+  minChannelCount!: number;
+
+  // False stores message text and payload with personal data redacted, as
+  // it is sent to the embedding provider
+  @Field()
+  retainRawText!: boolean;
+
+  // Null while the creator is on the environment defaults
+  @Field({ nullable: true })
+  updatedAt?: Date;
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { DbModule } from "../../db/db.module";
+import { CreatorSettingsResolver } from "./creator-settings.resolver";
+import { CreatorSettingsService } from "./creator-settings.service";
+
+@Module({
+  imports: [DbModule],
+  providers: [CreatorSettingsService, CreatorSettingsResolver],
+  exports: [CreatorSettingsService],
+})
+export class CreatorSettingsModule {}
@@ -0,0 +1,23 @@
+import { Args, ID, Mutation, Query, Resolver } from "@nestjs/graphql";
+import { CreatorSettings } from "./creator-settings.model";
+import { CreatorSettingsService } from "./creator-settings.service";
+import { UpdateCreatorSettingsInput } from "./update-creator-settings.input";
+
+@Resolver(() => CreatorSettings)
+export class CreatorSettingsResolver {
+  constructor(private settings: CreatorSettingsService) {}
+
+  @Query(() => CreatorSettings)
+  creatorSettings(
+    @Args("creatorId", { type: () => ID }) creatorId: string,
+  ): Promise<CreatorSettings> {
+    return this.settings.getSettings(creatorId);
+  }
+
+  @Mutation(() => CreatorSettings)
+  updateCreatorSettings(
+    @Args("input") input: UpdateCreatorSettingsInput,
+  ): Promise<CreatorSettings> {
+    return this.settings.updateSettings(input);
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PoolClient } from "pg";
+import { DbService } from "../../db/db.service";
+import { CreatorSettings } from "./creator-settings.model";
+import { UpdateCreatorSettingsInput } from "./update-creator-settings.input";
+
+type CreatorSettingsRow = {
+  similarity_threshold: number | null;
+  trigram_threshold: number | null;
+  suggestion_threshold: number | null;
+  suggestion_limit: number | null;
+  min_channel_count: number | null;
+  retain_raw_text: boolean | null;
+  updated_at: Date;
+};
+
+type SettingField = Exclude<keyof CreatorSettings, "creatorId" | "updatedAt">;
+
+const SETTING_COLUMNS: Record<SettingField, keyof CreatorSettingsRow> = {
+  similarityThreshold: "similarity_threshold",
+  trigramThreshold: "trigram_threshold",
+  suggestionThreshold: "suggestion_threshold",
+  suggestionLimit: "suggestion_limit",
+  minChannelCount: "min_channel_count",
+  retainRawText: "retain_raw_text",
+};
+
+// Environment variable and built-in fallback for each setting
+const SETTING_DEFAULTS: Record<SettingField, [string, number | boolean]> = {
+  // Raised to prevent mixed intent clusters
+  similarityThreshold: ["SIMILARITY_THRESHOLD", 0.75],
+  trigramThreshold: ["TRIGRAM_THRESHOLD", 0.85],
+  suggestionThreshold: ["SUGGESTION_THRESHOLD", 0.8],
+  suggestionLimit: ["SUGGESTION_LIMIT", 3],
+  minChannelCount: ["MIN_CHANNEL_COUNT", 0],
+  retainRawText: ["RETAIN_RAW_TEXT", true],
+};
+
+const SETTING_FIELDS = Object.keys(SETTING_COLUMNS) as SettingField[];
+
+@Injectable()
+export class CreatorSettingsService {
+  constructor(
+    private db: DbService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Effective clustering settings for a creator: stored values where set,
+   * environment defaults for everything else.
+   * Pass `client` when called inside a transaction so the read does not need
+   * a second pool connection.
+   */
+  async getSettings(
+    creatorId: string,
+    client?: PoolClient,
+  ): Promise<CreatorSettings> {
+    const query = `
+      SELECT
+        similarity_threshold,
+        trigram_threshold,
+        suggestion_threshold,
+        suggestion_limit,
+        min_channel_count,
+        retain_raw_text,
+        updated_at
+      FROM creator_settings
+      WHERE creator_id = $1
+    `;
+    const result = client
+      ? await client.query<CreatorSettingsRow>(query, [creatorId])
+      : await this.db.query<CreatorSettingsRow>(query, [creatorId]);
+
+    return this.mapSettings(creatorId, result.rows[0]);
+  }
+
+  async updateSettings(
+    input: UpdateCreatorSettingsInput,
+  ): Promise<CreatorSettings> {
+    // Only fields present in the input are written, so an update never
+    // clobbers settings it did not mention
+    const fields = SETTING_FIELDS.filter((field) => input[field] !== undefined);
+    const columns = ["creator_id", ...fields.map((f) => SETTING_COLUMNS[f])];
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+    const updates = columns
+      .slice(1)
+      .map((column) => `${column} = EXCLUDED.${column},`);
+    const values = fields.map((field) => input[field]);
+
+    const result = await this.db.query<CreatorSettingsRow>(
+      `
+        INSERT INTO creator_settings (${columns.join(", ")})
+        VALUES (${placeholders.join(", ")})
+        ON CONFLICT (creator_id) DO UPDATE SET
+          ${updates.join(" ")}
+          updated_at = now()
+        RETURNING
+          similarity_threshold,
+          trigram_threshold,
+          suggestion_threshold,
+          suggestion_limit,
+          min_channel_count,
+          retain_raw_text,
+          updated_at
+      `,
+      [input.creatorId, ...values],
+    );
+
+    return this.mapSettings(input.creatorId, result.rows[0]);
+  }
+
+  private mapSettings(
+    creatorId: string,
+    row: CreatorSettingsRow | undefined,
+  ): CreatorSettings {
+    const settings: CreatorSettings = {
+      creatorId,
+      similarityThreshold: 0,
+      trigramThreshold: 0,
+      suggestionThreshold: 0,
+      suggestionLimit: 0,
+      minChannelCount: 0,
+      retainRawText: true,
+      updatedAt: row?.updated_at,
+    };
+
+    const values = settings as Record<SettingField, number | boolean>;
+    for (const field of SETTING_FIELDS) {
+      const stored = row?.[SETTING_COLUMNS[field]];
+      const [envKey, fallback] = SETTING_DEFAULTS[field];
+      const value =
+        stored !== null && stored !== undefined
+          ? stored
+          : (this.config.get<string>(envKey) ?? fallback);
+      values[field] =
+        typeof fallback === "boolean"
+          ? value === true || value === "true"
+          : Number(value);
+    }
+
+    return settings;
+  }
+}
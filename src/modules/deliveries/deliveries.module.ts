@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { DbModule } from '../../db/db.module'
+import { DeliveriesResolver } from './deliveries.resolver'
+import { DeliveriesService } from './deliveries.service'
+import { HttpReplyDispatcher } from './http-reply-dispatcher'
+import { InMemoryReplyDispatcher } from './in-memory-reply-dispatcher'
+import { REPLY_DISPATCHER } from './reply-dispatcher'
+
+@Module({
+  imports: [DbModule],
+  providers: [
+    {
+      provide: REPLY_DISPATCHER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const dispatcher = config.get<string>('REPLY_DISPATCHER') || 'memory'
+        if (dispatcher === 'memory') {
+          return new InMemoryReplyDispatcher()
+        }
+        if (dispatcher === 'http') {
+          const url = config.get<string>('REPLY_DISPATCH_URL')
+          if (!url) {
+            throw new Error('REPLY_DISPATCH_URL is required for http reply dispatch')
+          }
+          return new HttpReplyDispatcher(url, Number(config.get<string>('REPLY_DISPATCH_TIMEOUT_MS') || 10000))
+        }
+        throw new Error(`Unknown REPLY_DISPATCHER "${dispatcher}" (available: memory, http)`)
+      }
+    },
+    DeliveriesService,
+    DeliveriesResolver
+  ],
+  exports: [DeliveriesService]
+})
+export class DeliveriesModule {}
@@ -0,0 +1,15 @@
+import { Args, ID, Query, Resolver } from "@nestjs/graphql";
+import { DeliveriesService } from "./deliveries.service";
+import { ReplyDelivery } from "./reply-delivery.model";
+
+@Resolver(() => ReplyDelivery)
+export class DeliveriesResolver {
+  constructor(private deliveries: DeliveriesService) {}
+
+  @Query(() => [ReplyDelivery], { name: "deliveries" })
+  deliveriesList(
+    @Args("clusterId", { type: () => ID }) clusterId: string,
+  ): Promise<ReplyDelivery[]> {
+    return this.deliveries.listDeliveries(clusterId);
+  }
+}
@@ -0,0 +1,202 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PoolClient } from "pg";
+import { DbService } from "../../db/db.service";
+import { DeliveryStatus } from "./delivery-status.enum";
+import { ReplyDelivery } from "./reply-delivery.model";
+import { REPLY_DISPATCHER, ReplyDispatcher } from "./reply-dispatcher";
+
+// A claimed row is hidden from other workers for this long; if the worker
+// dies mid-dispatch the row becomes due again afterwards
+const CLAIM_LEASE_SECONDS = 60;
+
+type DeliveryRow = {
+  id: string;
+  cluster_id: string;
+  creator_id: string;
+  channel_id: string;
+  channel_cid: string | null;
+  response_text: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+export type ReplyTarget = {
+  channelId: string;
+  channelCid: string | null;
+};
+
+@Injectable()
+export class DeliveriesService {
+  private readonly logger = new Logger(DeliveriesService.name);
+
+  constructor(
+    private db: DbService,
+    private config: ConfigService,
+    @Inject(REPLY_DISPATCHER) private dispatcher: ReplyDispatcher,
+  ) {}
+
+  /**
+   * Write one outbox row per channel on the caller's transaction, so the
+   * reply is queued if and only if the cluster action commits.
+   */
+  async enqueueReplies(
+    client: PoolClient,
+    clusterId: string,
+    creatorId: string,
+    responseText: string,
+    targets: ReplyTarget[],
+  ): Promise<void> {
+    for (const target of targets) {
+      await client.query(
+        `
+          INSERT INTO reply_deliveries (
+            cluster_id,
+            creator_id,
+            channel_id,
+            channel_cid,
+            response_text
+          )
+          VALUES ($1, $2, $3, $4, $5)
+        `,
+        [
+          clusterId,
+          creatorId,
+          target.channelId,
+          target.channelCid,
+          responseText,
+        ],
+      );
+    }
+  }
+
+  async listDeliveries(clusterId: string): Promise<ReplyDelivery[]> {
+    const result = await this.db.query<DeliveryRow>(
+      `
+        SELECT *
+        FROM reply_deliveries
+        WHERE cluster_id = $1
+        ORDER BY created_at ASC, channel_id ASC
+      `,
+      [clusterId],
+    );
+
+    return result.rows.map((row) => this.mapDeliveryRow(row));
+  }
+
+  /**
+   * Claim due outbox rows and hand them to the dispatcher.
+   * Failed attempts are retried with exponential backoff until
+   * REPLY_DELIVERY_MAX_ATTEMPTS is reached, then marked as failed.
+   * Returns the number of rows processed.
+   */
+  async processPending(limit = 50): Promise<number> {
+    const claimed = await this.db.query<DeliveryRow>(
+      `
+        UPDATE reply_deliveries
+        SET attempts = attempts + 1,
+            next_attempt_at = now() + make_interval(secs => $2),
+            updated_at = now()
+        WHERE id IN (
+          SELECT id
+          FROM reply_deliveries
+          WHERE status = 'pending'
+            AND next_attempt_at <= now()
+          ORDER BY next_attempt_at ASC
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `,
+      [limit, CLAIM_LEASE_SECONDS],
+    );
+
+    for (const row of claimed.rows) {
+      await this.deliver(row);
+    }
+
+    return claimed.rowCount || 0;
+  }
+
+  private async deliver(row: DeliveryRow): Promise<void> {
+    try {
+      await this.dispatcher.dispatch({
+        deliveryId: row.id,
+        clusterId: row.cluster_id,
+        creatorId: row.creator_id,
+        channelId: row.channel_id,
+        channelCid: row.channel_cid || undefined,
+        responseText: row.response_text,
+      });
+
+      await this.db.query(
+        `
+          UPDATE reply_deliveries
+          SET status = 'delivered',
+              delivered_at = now(),
+              last_error = NULL,
+              updated_at = now()
+          WHERE id = $1
+        `,
+        [row.id],
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      const maxAttempts = Number(
+        this.config.get<string>("REPLY_DELIVERY_MAX_ATTEMPTS") || 5,
+      );
+      const baseDelaySeconds = Number(
+        this.config.get<string>("REPLY_DELIVERY_RETRY_BASE_SECONDS") || 5,
+      );
+      const exhausted = row.attempts >= maxAttempts;
+
+      if (exhausted) {
+        this.logger.error(
+          `Reply delivery ${row.id} failed after ${row.attempts} attempts: ${message}`,
+        );
+      } else {
+        this.logger.warn(
+          `Reply delivery ${row.id} attempt ${row.attempts} failed: ${message}`,
+        );
+      }
+
+      await this.db.query(
+        `
+          UPDATE reply_deliveries
+          SET status = $2,
+              last_error = $3,
+              next_attempt_at = now() + make_interval(secs => $4),
+              updated_at = now()
+          WHERE id = $1
+        `,
+        [
+          row.id,
+          exhausted ? DeliveryStatus.Failed : DeliveryStatus.Pending,
+          message,
+          baseDelaySeconds * 2 ** (row.attempts - 1),
+        ],
+      );
+    }
+  }
+
+  private mapDeliveryRow(row: DeliveryRow): ReplyDelivery {
+    return {
+      id: row.id,
+      clusterId: row.cluster_id,
+      creatorId: row.creator_id,
+      channelId: row.channel_id,
+      channelCid: row.channel_cid || undefined,
+      responseText: row.response_text,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      deliveredAt: row.delivered_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IntervalPoller } from "../../workers/interval-poller";
+import { DeliveriesService } from "./deliveries.service";
+
+/**
+ * Polls the reply outbox and dispatches due rows.
+ * Set REPLY_DELIVERY_POLL_MS=0 to disable (e.g. when a separate worker
+ * process owns delivery).
+ */
+@Injectable()
+export class DeliveriesWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly poller: IntervalPoller;
+
+  constructor(config: ConfigService, deliveries: DeliveriesService) {
+    this.poller = new IntervalPoller(
+      config,
+      new Logger(DeliveriesWorker.name),
+      {
+        setting: "REPLY_DELIVERY_POLL_MS",
+        defaultMs: 1000,
+        name: "reply worker",
+        run: async () => {
+          await deliveries.processPending();
+        },
+      },
+    );
+  }
+
+  onModuleInit() {
+    this.poller.start();
+  }
+
+  onModuleDestroy() {
+    this.poller.stop();
+  }
+}
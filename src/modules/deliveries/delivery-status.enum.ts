@@ -0,0 +1,9 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum DeliveryStatus {
+  Pending = 'pending',
+  Delivered = 'delivered',
+  Failed = 'failed'
+}
+
+registerEnumType(DeliveryStatus, { name: 'DeliveryStatus' })
@@ -0,0 +1,29 @@
+import { ReplyDispatch, ReplyDispatcher } from "./reply-dispatcher";
+
+/**
+ * POSTs each reply as JSON to a local HTTP endpoint (e.g. a Stream mock or
+ * the service that owns the Stream server-side client).
+ */
+export class HttpReplyDispatcher implements ReplyDispatcher {
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async dispatch(reply: ReplyDispatch): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": reply.deliveryId,
+      },
+      body: JSON.stringify(reply),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Reply dispatch error: ${response.status} ${body}`);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Logger } from "@nestjs/common";
+import { ReplyDispatch, ReplyDispatcher } from "./reply-dispatcher";
+
+/**
+ * Keeps dispatched replies in memory instead of sending them.
+ * Used for local development and tests.
+ */
+export class InMemoryReplyDispatcher implements ReplyDispatcher {
+  readonly sent: ReplyDispatch[] = [];
+  private readonly logger = new Logger(InMemoryReplyDispatcher.name);
+
+  async dispatch(reply: ReplyDispatch): Promise<void> {
+    this.sent.push(reply);
+    this.logger.debug(`Reply for channel ${reply.channelId} recorded`);
+  }
+}
@@ -0,0 +1,41 @@
+import { Field, ID, Int, ObjectType } from "@nestjs/graphql";
+import { DeliveryStatus } from "./delivery-status.enum";
+
+@ObjectType()
+export class ReplyDelivery {
+  @Field(() => ID)
+  id!: string;
+
+  @Field(() => ID)
+  clusterId!: string;
+
+  @Field()
+  creatorId!: string;
+
+  @Field()
+  channelId!: string;
+
+  @Field({ nullable: true })
+  channelCid?: string;
+
+  @Field()
+  responseText!: string;
+
+  @Field(() => DeliveryStatus)
+  status!: DeliveryStatus;
+
+  @Field(() => Int)
+  attempts!: number;
+
+  @Field({ nullable: true })
+  lastError?: string;
+
+  @Field({ nullable: true })
+  deliveredAt?: Date;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+}
@@ -0,0 +1,19 @@
+export const REPLY_DISPATCHER = Symbol("REPLY_DISPATCHER");
+
+export type ReplyDispatch = {
+  // Stable per outbox row, so receivers can drop duplicate deliveries
+  deliveryId: string;
+  clusterId: string;
+  creatorId: string;
+  channelId: string;
+  channelCid?: string;
+  responseText: string;
+};
+
+/**
+ * Sends a creator's bulk reply to one channel.
+ * Implementations throw to signal a failed attempt; the worker retries.
+ */
+export interface ReplyDispatcher {
+  dispatch(reply: ReplyDispatch): Promise<void>;
+}
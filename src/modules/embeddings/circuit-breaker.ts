@@ -0,0 +1,63 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Stops calling a failing dependency for a while. Opens after `threshold`
+ * consecutive failures; once `resetMs` has passed it lets a single trial
+ * call through (half-open), closing on its success and reopening on its
+ * failure. Other calls are refused until the trial settles, so a
+ * recovering dependency does not get the full load at once.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly resetMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return "closed";
+    }
+    return this.now() - this.openedAt < this.resetMs ? "open" : "half_open";
+  }
+
+  // Whether `allowRequest` would let a call through, without claiming the trial
+  get accepting(): boolean {
+    const state = this.state;
+    return state === "closed" || (state === "half_open" && !this.trialInFlight);
+  }
+
+  // Every allowed call must end in recordSuccess, recordFailure or release
+  allowRequest(): boolean {
+    if (!this.accepting) {
+      return false;
+    }
+    if (this.state === "half_open") {
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    if (this.state === "half_open" || this.failures >= this.threshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  // The call ended without telling whether the dependency is healthy
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { DbService } from "../../db/db.service";
+import { EmbeddingsService } from "./embeddings.service";
+
+// Every vector column written with EmbeddingsService output
+const VECTOR_COLUMNS = [
+  { table: "messages", column: "embedding" },
+  { table: "clusters", column: "centroid" },
+  { table: "response_templates", column: "question_embedding" },
+];
+
+/**
+ * Refuses to start when EMBEDDING_DIM disagrees with the vector columns, so
+ * a misconfiguration fails at boot instead of on the first insert.
+ */
+@Injectable()
+export class EmbeddingDimensionCheck implements OnModuleInit {
+  constructor(
+    private db: DbService,
+    private embeddings: EmbeddingsService,
+  ) {}
+
+  async onModuleInit() {
+    // pgvector stores the declared size of vector(N) as the type modifier
+    const columns = await this.db.query<{
+      table_name: string;
+      column_name: string;
+      dimension: number;
+    }>(
+      `
+        SELECT
+          c.relname AS table_name,
+          a.attname AS column_name,
+          a.atttypmod AS dimension
+        FROM pg_attribute a
+        JOIN pg_class c
+          ON c.oid = a.attrelid
+        JOIN unnest($1::text[], $2::text[]) AS v(table_name, column_name)
+          ON v.table_name = c.relname
+          AND v.column_name = a.attname
+        WHERE c.relnamespace = 'public'::regnamespace
+        ORDER BY c.relname, a.attname
+      `,
+      [
+        VECTOR_COLUMNS.map((target) => target.table),
+        VECTOR_COLUMNS.map((target) => target.column),
+      ],
+    );
+
+    const expected = this.embeddings.dimension;
+    const mismatched = columns.rows.filter(
+      (row) => Number(row.dimension) !== expected,
+    );
+    if (mismatched.length > 0) {
+      throw new Error(
+        `EMBEDDING_DIM is ${expected} but ${mismatched
+          .map(
+            (row) =>
+              `${row.table_name}.${row.column_name} is vector(${row.dimension})`,
+          )
+          .join(", ")}; change EMBEDDING_DIM or the columns in db/init.sql`,
+      );
+    }
+  }
+}
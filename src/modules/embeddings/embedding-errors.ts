@@ -0,0 +1,31 @@
+/**
+ * A failed call to an embedding provider. `retryable` marks failures worth
+ * another attempt (rate limits, server errors, timeouts); `retryAfterMs`
+ * carries the provider's Retry-After hint when it sent one.
+ */
+export class EmbeddingRequestError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { retryable: boolean; retryAfterMs?: number },
+  ) {
+    super(message);
+    this.name = "EmbeddingRequestError";
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The provider cannot be reached right now: retries ran out or the circuit
+ * breaker is open. Ingest catches this and stores the message without an
+ * embedding instead of failing.
+ */
+export class EmbeddingUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingUnavailableError";
+  }
+}
@@ -0,0 +1,20 @@
+export const EMBEDDING_PROVIDERS = Symbol("EMBEDDING_PROVIDERS");
+
+/**
+ * Turns texts into vectors. Implementations are registered in
+ * EmbeddingsModule under EMBEDDING_PROVIDERS, and the EMBEDDING_PROVIDER
+ * setting picks one by `name`.
+ */
+export interface EmbeddingProvider {
+  // Stored next to every embedding the provider produces
+  readonly name: string;
+  // Identifies the vector space. Vectors are only ever compared with
+  // vectors of the same model, so change it whenever the output changes.
+  readonly model: string;
+  // Remote providers are slow or billed, so their results go through Redis
+  readonly cacheable: boolean;
+  // One vector per text, in input order. `dimension` is EMBEDDING_DIM:
+  // providers that can size their output honor it, others return their
+  // native size and EmbeddingsService truncates or rejects the result.
+  embedMany(texts: string[], dimension: number): Promise<number[][]>;
+}
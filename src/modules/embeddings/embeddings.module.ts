@@ -1,8 +1,32 @@
 import { Module } from '@nestjs/common'
+import { DbModule } from '../../db/db.module'
+import { EmbeddingDimensionCheck } from './embedding-dimension.check'
+import { EMBEDDING_PROVIDERS, EmbeddingProvider } from './embedding-provider'
 import { EmbeddingsService } from './embeddings.service'
+import { LocalEmbeddingProvider } from './local-embedding-provider'
+import { OpenAIApiEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from './openai-embedding-provider'
+import { StubEmbeddingProvider } from './stub-embedding-provider'
+
+// Every provider EMBEDDING_PROVIDER can select
+const PROVIDERS = [
+  StubEmbeddingProvider,
+  LocalEmbeddingProvider,
+  OpenAIApiEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider
+]
 
 @Module({
-  providers: [EmbeddingsService],
+  imports: [DbModule],
+  providers: [
+    ...PROVIDERS,
+    {
+      provide: EMBEDDING_PROVIDERS,
+      inject: PROVIDERS,
+      useFactory: (...providers: EmbeddingProvider[]) => providers
+    },
+    EmbeddingsService,
+    EmbeddingDimensionCheck
+  ],
   exports: [EmbeddingsService]
 })
 export class EmbeddingsModule {}
@@ -1,113 +1,277 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Inject, Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { createHash } from "crypto";
 import { CacheService } from "../../cache/cache.service";
-
-type EmbeddingProvider = "stub" | "openai";
+import { CircuitBreaker } from "./circuit-breaker";
+import {
+  EmbeddingRequestError,
+  EmbeddingUnavailableError,
+} from "./embedding-errors";
+import { EMBEDDING_PROVIDERS, EmbeddingProvider } from "./embedding-provider";
 
 @Injectable()
 export class EmbeddingsService {
   private readonly logger = new Logger(EmbeddingsService.name);
+  private readonly provider: EmbeddingProvider;
+  // Size of every stored vector (the vector(N) columns in db/init.sql)
+  readonly dimension: number;
+  // Cut longer vectors down to `dimension` (Matryoshka-trained models only)
+  private readonly truncate: boolean;
+  // Retries after a retryable failure, EMBEDDING_RETRY_BASE_MS doubling each time
+  private readonly maxRetries: number;
+  private readonly retryBaseMs: number;
+  // Give up at once when the provider asks us to wait longer than this
+  private readonly retryMaxDelayMs: number;
+  private readonly breaker: CircuitBreaker;
+  // Most inputs sent to the provider in one request
+  private readonly batchSize: number;
+  // How long `embed` waits for other calls to share a request (0 disables)
+  private readonly coalesceMs: number;
+  private queued: Array<{
+    text: string;
+    resolve: (embedding: number[]) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private flushTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private config: ConfigService,
     private cache: CacheService,
-  ) {}
+    @Inject(EMBEDDING_PROVIDERS) providers: EmbeddingProvider[],
+  ) {
+    const name = this.config.get<string>("EMBEDDING_PROVIDER") || "stub";
+    const provider = providers.find((candidate) => candidate.name === name);
+    if (!provider) {
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${name}" (available: ${providers
+          .map((candidate) => candidate.name)
+          .join(", ")})`,
+      );
+    }
+    this.provider = provider;
+    this.dimension = Number(this.config.get<string>("EMBEDDING_DIM") || 1536);
+    this.truncate = this.config.get<string>("EMBEDDING_TRUNCATE") === "true";
+    this.maxRetries = Number(
+      this.config.get<string>("EMBEDDING_MAX_RETRIES") ?? 3,
+    );
+    this.retryBaseMs = Number(
+      this.config.get<string>("EMBEDDING_RETRY_BASE_MS") ?? 500,
+    );
+    this.retryMaxDelayMs = Number(
+      this.config.get<string>("EMBEDDING_RETRY_MAX_DELAY_MS") ?? 10000,
+    );
+    this.breaker = new CircuitBreaker(
+      Number(this.config.get<string>("EMBEDDING_BREAKER_THRESHOLD") ?? 5),
+      Number(this.config.get<string>("EMBEDDING_BREAKER_RESET_MS") ?? 30000),
+    );
+    this.batchSize = Number(
+      this.config.get<string>("EMBEDDING_BATCH_SIZE") || 100,
+    );
+    this.coalesceMs = Number(
+      this.config.get<string>("EMBEDDING_COALESCE_MS") ?? 10,
+    );
+  }
+
+  // Name of the active provider, stored next to each embedding
+  get providerName(): string {
+    return this.provider.name;
+  }
 
+  // Model of the active provider; matching only compares embeddings of this model
+  get modelName(): string {
+    return this.provider.model;
+  }
+
+  // False while the circuit breaker is open and calls fail without trying
+  get available(): boolean {
+    return this.breaker.accepting;
+  }
+
+  /**
+   * Embed one text. For remote providers, calls made within
+   * EMBEDDING_COALESCE_MS of each other share one `embedMany` request.
+   */
   async embed(text: string): Promise<number[]> {
-    const provider = (this.config.get<string>("EMBEDDING_PROVIDER") ||
-      "stub") as EmbeddingProvider;
-    const dimension = Number(this.config.get<string>("EMBEDDING_DIM") || 1536);
-
-    // Only cache for OpenAI (stub is instant and deterministic)
-    if (provider === "openai") {
-      // Check cache
-      const cacheKey = this.getCacheKey(text);
-      const cached = await this.cache.get(cacheKey);
-
-      if (cached) {
-        this.logger.debug("Cache hit for embedding");
-        return JSON.parse(cached);
-      }
+    if (this.provider.cacheable && this.coalesceMs > 0) {
+      return new Promise((resolve, reject) => {
+        this.queued.push({ text, resolve, reject });
+        if (this.queued.length >= this.batchSize) {
+          this.flushQueued();
+        } else if (!this.flushTimer) {
+          this.flushTimer = setTimeout(
+            () => this.flushQueued(),
+            this.coalesceMs,
+          );
+        }
+      });
+    }
 
-      // Generate embedding
-      const embedding = await this.embedWithOpenAI(text, dimension);
+    const [embedding] = await this.embedMany([text]);
+    return embedding;
+  }
+
+  /**
+   * Embed several texts; results are returned in the same order as the
+   * input. Texts sharing a cache key are embedded once, remote providers
+   * serve cache hits from a single MGET, and the misses go to the provider
+   * in requests of at most EMBEDDING_BATCH_SIZE inputs.
+   */
+  async embedMany(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    // Only cache remote providers (the stub is instant and deterministic)
+    if (!this.provider.cacheable) {
+      const unique = Array.from(new Set(texts));
+      const generated = await this.embedInChunks(unique);
+      const byText = new Map(
+        unique.map((text, index) => [text, generated[index]]),
+      );
+      return texts.map((text) => byText.get(text)!);
+    }
+
+    const keys = texts.map((text) => this.getCacheKey(text));
+    const textsByKey = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!textsByKey.has(key)) textsByKey.set(key, texts[index]);
+    });
+    const uniqueKeys = Array.from(textsByKey.keys());
+
+    const embeddings = new Map<string, number[]>();
+    const cached = await this.cache.mget(uniqueKeys);
+    uniqueKeys.forEach((key, index) => {
+      const hit = cached[index];
+      if (hit) embeddings.set(key, JSON.parse(hit) as number[]);
+    });
 
+    const misses = uniqueKeys.filter((key) => !embeddings.has(key));
+    if (misses.length > 0) {
+      const generated = await this.embedInChunks(
+        misses.map((key) => textsByKey.get(key)!),
+      );
+      misses.forEach((key, index) => embeddings.set(key, generated[index]));
       // Cache for 30 days
-      await this.cache.set(
-        cacheKey,
-        JSON.stringify(embedding),
+      await this.cache.setMany(
+        misses.map((key, index) => ({
+          key,
+          value: JSON.stringify(generated[index]),
+        })),
         30 * 24 * 60 * 60,
       );
-      this.logger.debug("Cache miss, generated and stored embedding");
-
-      return embedding;
     }
+    this.logger.debug(
+      `Embedded ${texts.length} texts with ${this.provider.name} (${uniqueKeys.length} unique, ${misses.length} cache misses)`,
+    );
 
-    return this.embedWithStub(text, dimension);
-  }
-
-  private getCacheKey(text: string): string {
-    // Normalize text and hash for cache key
-    const normalized = text.toLowerCase().trim();
-    const hash = createHash("sha256").update(normalized).digest("hex");
-    return `emb:${hash}`;
+    return keys.map((key) => embeddings.get(key)!);
   }
 
-  private async embedWithOpenAI(
-    text: string,
-    dimension: number,
-  ): Promise<number[]> {
-    const apiKey = this.config.get<string>("OPENAI_API_KEY");
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY is required for openai embeddings");
+  // Send the queued `embed` calls as one batch
+  private flushQueued(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
+    const batch = this.queued;
+    this.queued = [];
 
-    const model =
-      this.config.get<string>("OPENAI_EMBEDDING_MODEL") ||
-      "text-embedding-3-small";
-    const response = await fetch("https://api.openai.com/v1/embeddings", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ input: text, model }),
-    });
+    this.embedMany(batch.map((entry) => entry.text)).then(
+      (embeddings) =>
+        batch.forEach((entry, index) => entry.resolve(embeddings[index])),
+      (error) => batch.forEach((entry) => entry.reject(error)),
+    );
+  }
 
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`OpenAI embeddings error: ${response.status} ${body}`);
+  private async embedInChunks(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const chunk = texts.slice(start, start + this.batchSize);
+      embeddings.push(...this.fitDimension(await this.callProvider(chunk)));
     }
+    return embeddings;
+  }
 
-    const payload = (await response.json()) as {
-      data: Array<{ embedding: number[] }>;
-    };
-    const embedding = payload.data?.[0]?.embedding;
-    if (!embedding || embedding.length === 0) {
-      throw new Error("OpenAI embeddings returned empty data");
+  /**
+   * Call the provider, retrying rate limits, server errors and timeouts with
+   * exponential backoff (or the provider's Retry-After, if longer). When the
+   * retries run out, or the circuit breaker is open after repeated failures,
+   * this throws EmbeddingUnavailableError so callers can fall back to
+   * trigram-only matching. Other errors (bad requests, auth) are rethrown
+   * as they are and do not count towards the breaker.
+   */
+  private async callProvider(texts: string[]): Promise<number[][]> {
+    if (!this.breaker.allowRequest()) {
+      throw new EmbeddingUnavailableError(
+        `${this.provider.name} embeddings are unavailable (circuit open after repeated failures)`,
+      );
     }
 
-    if (embedding.length !== dimension) {
-      return embedding;
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        const embeddings = await this.provider.embedMany(texts, this.dimension);
+        this.breaker.recordSuccess();
+        return embeddings;
+      } catch (error) {
+        if (!(error instanceof EmbeddingRequestError) || !error.retryable) {
+          this.breaker.release();
+          throw error;
+        }
+        const delayMs = Math.max(
+          error.retryAfterMs ?? 0,
+          this.retryBaseMs * 2 ** (attempt - 1),
+        );
+        if (attempt > this.maxRetries || delayMs > this.retryMaxDelayMs) {
+          this.breaker.recordFailure();
+          if (this.breaker.state === "open") {
+            this.logger.warn(
+              `${this.provider.name} embeddings circuit opened: ${error.message}`,
+            );
+          }
+          throw new EmbeddingUnavailableError(
+            `${this.provider.name} embeddings are unavailable after ${attempt} attempt(s): ${error.message}`,
+          );
+        }
+        this.logger.warn(
+          `${this.provider.name} embeddings attempt ${attempt} failed, retrying in ${delayMs}ms: ${error.message}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
     }
+  }
 
-    return embedding;
+  /**
+   * Make provider output match EMBEDDING_DIM. With EMBEDDING_TRUNCATE=true,
+   * longer vectors keep their leading components and are renormalized to
+   * unit length, the way Matryoshka-trained models (e.g. text-embedding-3-*)
+   * are meant to be shortened. Any other mismatch is rejected here rather
+   * than surfacing later as a Postgres error on insert.
+   */
+  private fitDimension(embeddings: number[][]): number[][] {
+    return embeddings.map((embedding) => {
+      if (embedding.length === this.dimension) {
+        return embedding;
+      }
+      if (embedding.length > this.dimension && this.truncate) {
+        const truncated = embedding.slice(0, this.dimension);
+        const norm = Math.sqrt(
+          truncated.reduce((sum, value) => sum + value * value, 0),
+        );
+        return norm === 0 ? truncated : truncated.map((value) => value / norm);
+      }
+      throw new Error(
+        `${this.provider.name} returned a ${embedding.length}-dimensional embedding but EMBEDDING_DIM is ${this.dimension}` +
+          (embedding.length > this.dimension
+            ? " (set EMBEDDING_TRUNCATE=true if the model supports truncation)"
+            : ""),
+      );
+    });
   }
 
-  private async embedWithStub(
-    text: string,
-    dimension: number,
-  ): Promise<number[]> {
-    const hash = createHash("sha256").update(text).digest();
-    const embedding: number[] = [];
-    for (let i = 0; i < dimension; i += 1) {
-      const byte1 = hash[i % hash.length];
-      const byte2 = hash[(i + 1) % hash.length];
-      const combined = (byte1 * 256 + byte2) / 65535;
-      const value = combined * 2 - 1;
-      embedding.push(Number(value.toFixed(6)));
-    }
-    return embedding;
+  private getCacheKey(text: string): string {
+    // Normalize text and hash for cache key; models never share entries
+    const normalized = text.toLowerCase().trim();
+    const hash = createHash("sha256").update(normalized).digest("hex");
+    return `emb:${this.provider.name}:${this.provider.model}:${this.dimension}:${hash}`;
   }
 }
@@ -0,0 +1,82 @@
+import { Injectable } from "@nestjs/common";
+import { EmbeddingProvider } from "./embedding-provider";
+
+// Character n-gram sizes hashed into the vector, plus whole words
+const NGRAM_SIZES = [3, 4];
+
+// Function words shared by most questions; left out so they don't pull
+// unrelated messages together
+const STOP_WORDS = new Set(
+  (
+    "a an and any are be can could do does for how i in is it me my of on " +
+    "or the to what when where which who why will with would you your"
+  ).split(" "),
+);
+
+/**
+ * Offline embeddings from hashed character n-grams and words (the "hashing
+ * trick"). Texts that share wording share features, so paraphrases land
+ * close together without a model or API key. It only sees surface form:
+ * synonyms with no letters in common still come out unrelated.
+ */
+@Injectable()
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model = "local-ngram-v1";
+  readonly cacheable = false;
+
+  async embedMany(texts: string[], dimension: number): Promise<number[][]> {
+    return texts.map((text) => this.embed(text, dimension));
+  }
+
+  private embed(text: string, dimension: number): number[] {
+    const vector = new Array<number>(dimension).fill(0);
+    for (const feature of this.features(text)) {
+      const hash = fnv1a(feature);
+      // A second hash picks the sign, so collisions cancel out on average
+      const sign = fnv1a(`~${feature}`) & 1 ? 1 : -1;
+      vector[hash % dimension] += sign;
+    }
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0),
+    );
+    return vector.map((value) =>
+      norm === 0 ? 0 : Number((value / norm).toFixed(6)),
+    );
+  }
+
+  private features(text: string): string[] {
+    const allWords = text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word !== "");
+    const contentWords = allWords.filter((word) => !STOP_WORDS.has(word));
+    // "How are you?" is all function words; keep them rather than embed nothing
+    const words = contentWords.length > 0 ? contentWords : allWords;
+
+    const features = words.map((word) => `w:${word}`);
+    // Pad each word so n-grams also capture its start and end
+    for (const word of words) {
+      const padded = ` ${word} `;
+      for (const size of NGRAM_SIZES) {
+        for (let i = 0; i + size <= padded.length; i += 1) {
+          features.push(padded.slice(i, i + size));
+        }
+      }
+    }
+    return features;
+  }
+}
+
+// 32-bit FNV-1a, as an unsigned integer
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,175 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { EmbeddingRequestError } from "./embedding-errors";
+import { EmbeddingProvider } from "./embedding-provider";
+
+export type OpenAIEmbeddingProviderOptions = {
+  name: string;
+  // e.g. https://api.openai.com/v1; `/embeddings` is appended
+  baseUrl?: string;
+  apiKey?: string;
+  // Endpoints that run without auth (local inference servers) leave this off
+  requireApiKey: boolean;
+  model: string;
+  // Send `dimensions` so the API shortens the vectors itself (only models
+  // trained for it accept the parameter, e.g. text-embedding-3-*)
+  sendDimensions: boolean;
+  // Abort requests that take longer than this
+  timeoutMs: number;
+  // Setting names quoted in configuration errors
+  baseUrlSetting: string;
+  apiKeySetting: string;
+};
+
+/**
+ * Calls an OpenAI-style `POST /embeddings` endpoint: OpenAI itself or any
+ * server that speaks the same protocol.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly cacheable = true;
+
+  constructor(private readonly options: OpenAIEmbeddingProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+  }
+
+  async embedMany(texts: string[], dimension: number): Promise<number[][]> {
+    const { baseUrl, apiKey, model } = this.options;
+    if (!baseUrl) {
+      throw new Error(
+        `${this.options.baseUrlSetting} is required for ${this.name} embeddings`,
+      );
+    }
+    if (this.options.requireApiKey && !apiKey) {
+      throw new Error(
+        `${this.options.apiKeySetting} is required for ${this.name} embeddings`,
+      );
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, "")}/embeddings`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          input: texts,
+          model,
+          ...(this.options.sendDimensions ? { dimensions: dimension } : {}),
+        }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+    } catch (error) {
+      // Timeouts and network failures never reached a response
+      throw new EmbeddingRequestError(
+        `${this.name} embeddings request failed: ${(error as Error).message}`,
+        { retryable: true },
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new EmbeddingRequestError(
+        `${this.name} embeddings error: ${response.status} ${body}`,
+        {
+          // Rate limits and server errors pass; bad requests and auth do not
+          retryable: response.status === 429 || response.status >= 500,
+          retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        },
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data: Array<{ embedding: number[]; index: number }>;
+    };
+    const data = payload.data || [];
+    if (data.length !== texts.length) {
+      throw new Error(`${this.name} embeddings returned empty data`);
+    }
+
+    // The API may return items out of order; `index` maps back to the input
+    const embeddings: number[][] = new Array(texts.length);
+    for (const item of data) {
+      const embedding = item.embedding;
+      if (!embedding || embedding.length === 0) {
+        throw new Error(`${this.name} embeddings returned empty data`);
+      }
+
+      embeddings[item.index] = embedding;
+    }
+
+    return embeddings;
+  }
+}
+
+/**
+ * OpenAI's hosted API (EMBEDDING_PROVIDER=openai).
+ */
+@Injectable()
+export class OpenAIApiEmbeddingProvider extends OpenAIEmbeddingProvider {
+  constructor(config: ConfigService) {
+    const model =
+      config.get<string>("OPENAI_EMBEDDING_MODEL") || "text-embedding-3-small";
+    super({
+      name: "openai",
+      baseUrl:
+        config.get<string>("OPENAI_BASE_URL") || "https://api.openai.com/v1",
+      apiKey: config.get<string>("OPENAI_API_KEY"),
+      requireApiKey: true,
+      model,
+      sendDimensions: sendDimensions(config, model),
+      timeoutMs: Number(config.get<string>("EMBEDDING_TIMEOUT_MS") || 10000),
+      baseUrlSetting: "OPENAI_BASE_URL",
+      apiKeySetting: "OPENAI_API_KEY",
+    });
+  }
+}
+
+/**
+ * Any other server that speaks the protocol, e.g. a local inference server
+ * (EMBEDDING_PROVIDER=openai-compatible).
+ */
+@Injectable()
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  constructor(config: ConfigService) {
+    const model =
+      config.get<string>("EMBEDDING_MODEL") || "text-embedding-3-small";
+    super({
+      name: "openai-compatible",
+      baseUrl: config.get<string>("EMBEDDING_BASE_URL"),
+      apiKey: config.get<string>("EMBEDDING_API_KEY"),
+      requireApiKey: false,
+      model,
+      sendDimensions: sendDimensions(config, model),
+      timeoutMs: Number(config.get<string>("EMBEDDING_TIMEOUT_MS") || 10000),
+      baseUrlSetting: "EMBEDDING_BASE_URL",
+      apiKeySetting: "EMBEDDING_API_KEY",
+    });
+  }
+}
+
+// EMBEDDING_SEND_DIMENSIONS=true|false overrides the per-model default
+function sendDimensions(config: ConfigService, model: string): boolean {
+  const setting = config.get<string>("EMBEDDING_SEND_DIMENSIONS");
+  return setting ? setting === "true" : model.startsWith("text-embedding-3");
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,31 @@
+import { Injectable } from "@nestjs/common";
+import { createHash } from "crypto";
+import { EmbeddingProvider } from "./embedding-provider";
+
+/**
+ * Deterministic vectors derived from a SHA-256 of the text.
+ * Free and offline, but only identical texts come out similar.
+ */
+@Injectable()
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "stub";
+  readonly model = "stub-sha256";
+  readonly cacheable = false;
+
+  async embedMany(texts: string[], dimension: number): Promise<number[][]> {
+    return texts.map((text) => this.embed(text, dimension));
+  }
+
+  private embed(text: string, dimension: number): number[] {
+    const hash = createHash("sha256").update(text).digest();
+    const embedding: number[] = [];
+    for (let i = 0; i < dimension; i += 1) {
+      const byte1 = hash[i % hash.length];
+      const byte2 = hash[(i + 1) % hash.length];
+      const combined = (byte1 * 256 + byte2) / 65535;
+      const value = combined * 2 - 1;
+      embedding.push(Number(value.toFixed(6)));
+    }
+    return embedding;
+  }
+}
@@ -0,0 +1,12 @@
+import { Field, Int, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class ClusterSizeCount {
+  // Number of messages in a cluster
+  @Field(() => Int)
+  size!: number;
+
+  // Number of clusters with that many messages
+  @Field(() => Int)
+  count!: number;
+}
@@ -0,0 +1,11 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum ClusteringStatus {
+  Pending = 'pending',
+  Clustered = 'clustered'
+}
+
+registerEnumType(ClusteringStatus, {
+  name: 'ClusteringStatus',
+  description: 'Whether the ingest worker has embedded and placed a message yet'
+})
@@ -0,0 +1,15 @@
+import { Field, Int, ObjectType } from "@nestjs/graphql";
+import { IngestResult } from "./ingest-result.model";
+
+@ObjectType()
+export class IngestBatchItemResult {
+  // Position of the message in the `inputs` list
+  @Field(() => Int)
+  index!: number;
+
+  @Field(() => IngestResult, { nullable: true })
+  result?: IngestResult;
+
+  @Field({ nullable: true })
+  error?: string;
+}
@@ -1,11 +1,14 @@
-import { Field, ID, InputType } from "@nestjs/graphql";
+import { Field, ID, InputType, Int } from "@nestjs/graphql";
 import {
   IsBoolean,
   IsDate,
+  IsInt,
   IsObject,
   IsOptional,
   IsString,
   IsUUID,
+  Max,
+  Min,
 } from "class-validator";
 import { Type } from "class-transformer";
 import GraphQLJSON from "graphql-type-json";
@@ -59,4 +62,12 @@ export class IngestMessageInput {
   @IsOptional()
   @IsObject()
   rawPayload?: Record<string, unknown>;
+
+  // Return this many top-scoring candidates with the result, for debugging
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  explainCandidates?: number;
 }
@@ -0,0 +1,9 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum IngestOutcome {
+  Created = 'created',
+  Duplicate = 'duplicate',
+  Updated = 'updated'
+}
+
+registerEnumType(IngestOutcome, { name: 'IngestOutcome' })
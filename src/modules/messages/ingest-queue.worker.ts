@@ -0,0 +1,44 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IntervalPoller } from "../../workers/interval-poller";
+import { MessagesService } from "./messages.service";
+
+/**
+ * Embeds and clusters messages stored by an async ingest (INGEST_MODE=async),
+ * one batch per tick. Also drains messages left queued after switching back
+ * to synchronous ingest.
+ * Set INGEST_QUEUE_POLL_MS=0 to disable (e.g. when a separate worker process
+ * owns the queue).
+ */
+@Injectable()
+export class IngestQueueWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IngestQueueWorker.name);
+  private readonly poller: IntervalPoller;
+
+  constructor(config: ConfigService, messages: MessagesService) {
+    this.poller = new IntervalPoller(config, this.logger, {
+      setting: "INGEST_QUEUE_POLL_MS",
+      defaultMs: 500,
+      name: "ingest queue worker",
+      run: async () => {
+        const processed = await messages.processIngestQueue();
+        if (processed > 0) {
+          this.logger.log(`Clustered ${processed} queued messages`);
+        }
+      },
+    });
+  }
+
+  onModuleInit() {
+    this.poller.start();
+  }
+
+  onModuleDestroy() {
+    this.poller.stop();
+  }
+}
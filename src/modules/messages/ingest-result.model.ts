@@ -1,16 +1,62 @@
 import { Field, Float, ID, ObjectType } from "@nestjs/graphql";
+import { ClusteringStatus } from "./clustering-status.enum";
+import { IngestOutcome } from "./ingest-outcome.enum";
+import { MatchCandidate } from "./match-candidate.model";
+import { RedactionCount } from "../redaction/redaction-count.model";
+import { ReplyNeed } from "../reply-need/reply-need.model";
+import { MatchReason } from "./match-reason.enum";
 
 @ObjectType()
 export class IngestResult {
   @Field(() => ID)
   messageId!: string;
 
-  @Field(() => ID)
-  clusterId!: string;
+  // Null while clustering is pending (INGEST_MODE=async) and for messages
+  // that need no reply, which are never clustered
+  @Field(() => ID, { nullable: true })
+  clusterId?: string;
 
   @Field(() => ID, { nullable: true })
   matchedMessageId?: string;
 
   @Field(() => Float, { nullable: true })
   similarity?: number;
+
+  // Created for new messages, Duplicate for redeliveries, Updated for edits
+  @Field(() => IngestOutcome)
+  outcome!: IngestOutcome;
+
+  // Null while clustering is pending or when the message needs no reply
+  @Field(() => MatchReason, { nullable: true })
+  matchReason?: MatchReason;
+
+  // Pending when the message was only stored and the ingest worker will
+  // embed and cluster it; poll the `message` query for the outcome
+  @Field(() => ClusteringStatus)
+  clusteringStatus!: ClusteringStatus;
+
+  // True when a trigram match let ingest reuse the cluster without embedding
+  @Field()
+  embeddingSkipped!: boolean;
+
+  // True when the embedding provider was unavailable: the message was placed
+  // by trigram only and is embedded and re-clustered once the provider is back
+  @Field()
+  embeddingPending!: boolean;
+
+  // Older messages from the same channel taken out of their clusters
+  @Field(() => [ID])
+  supersededMessageIds!: string[];
+
+  // Whether the message asks for a reply; null while clustering is pending
+  @Field(() => ReplyNeed, { nullable: true })
+  replyNeed?: ReplyNeed;
+
+  // Personal data replaced with placeholders before matching and embedding
+  @Field(() => [RedactionCount])
+  redactions!: RedactionCount[];
+
+  // Only populated when the input asks for explainCandidates
+  @Field(() => [MatchCandidate], { nullable: true })
+  candidates?: MatchCandidate[];
 }
@@ -0,0 +1,21 @@
+import { Field, Float, ID, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class MatchCandidate {
+  @Field(() => ID)
+  messageId!: string;
+
+  @Field(() => ID, { nullable: true })
+  clusterId?: string;
+
+  @Field(() => Float)
+  trigramSimilarity!: number;
+
+  // Null when either side has no embedding (e.g. embedding was skipped)
+  @Field(() => Float, { nullable: true })
+  cosineSimilarity?: number;
+
+  // Similarity to the candidate's cluster centroid, if it is in a cluster
+  @Field(() => Float, { nullable: true })
+  centroidSimilarity?: number;
+}
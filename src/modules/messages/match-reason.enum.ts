@@ -0,0 +1,13 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum MatchReason {
+  Trigram = 'trigram',
+  Vector = 'vector',
+  NewCluster = 'new_cluster',
+  PaidDm = 'paid_dm'
+}
+
+registerEnumType(MatchReason, {
+  name: 'MatchReason',
+  description: 'Which ingest step decided the cluster'
+})
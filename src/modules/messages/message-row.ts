@@ -0,0 +1,46 @@
+import { ClusteringStatus } from "./clustering-status.enum";
+import { Message } from "./message.model";
+
+// `messages.*` plus the message's cluster (null when detached)
+export type MessageRow = {
+  id: string;
+  external_message_id: string;
+  creator_id: string;
+  channel_id: string;
+  channel_cid: string | null;
+  visitor_user_id: string | null;
+  visitor_username: string | null;
+  text: string;
+  created_at: Date;
+  replied_at: Date | null;
+  is_paid_dm: boolean;
+  raw_payload: Record<string, unknown> | null;
+  clustering_status: ClusteringStatus;
+  needs_reply: boolean;
+  cluster_id: string | null;
+};
+
+export function mapMessageRow(row: MessageRow): Message {
+  // Extract avatar URL from rawPayload.user.image
+  const avatarUrl = (row.raw_payload as { user?: { image?: string } })?.user
+    ?.image;
+
+  return {
+    id: row.id,
+    externalMessageId: row.external_message_id,
+    creatorId: row.creator_id,
+    channelId: row.channel_id,
+    channelCid: row.channel_cid || undefined,
+    visitorUserId: row.visitor_user_id || undefined,
+    visitorUsername: row.visitor_username || undefined,
+    visitorAvatarUrl: avatarUrl || undefined,
+    text: row.text,
+    createdAt: row.created_at,
+    repliedAt: row.replied_at || undefined,
+    isPaidDm: row.is_paid_dm,
+    rawPayload: row.raw_payload || undefined,
+    clusteringStatus: row.clustering_status,
+    needsReply: row.needs_reply,
+    clusterId: row.cluster_id || undefined,
+  };
+}
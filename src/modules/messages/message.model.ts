@@ -1,5 +1,6 @@
 import { Field, ID, ObjectType } from "@nestjs/graphql";
 import GraphQLJSON from "graphql-type-json";
+import { ClusteringStatus } from "./clustering-status.enum";
 
 @ObjectType()
 export class Message {
@@ -39,6 +40,17 @@ export class Message {
   @Field()
   isPaidDm!: boolean;
 
+  @Field(() => ClusteringStatus)
+  clusteringStatus!: ClusteringStatus;
+
+  // False for greetings, thanks and the like, which are never clustered
+  @Field()
+  needsReply!: boolean;
+
+  // Cluster the message is in, if any
+  @Field(() => ID, { nullable: true })
+  clusterId?: string;
+
   @Field(() => GraphQLJSON, { nullable: true })
   rawPayload?: Record<string, unknown>;
 }
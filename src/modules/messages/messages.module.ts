@@ -1,12 +1,17 @@
 import { Module } from '@nestjs/common'
 import { DbModule } from '../../db/db.module'
+import { CreatorSettingsModule } from '../creator-settings/creator-settings.module'
 import { EmbeddingsModule } from '../embeddings/embeddings.module'
+import { RedactionModule } from '../redaction/redaction.module'
+import { ReplyNeedModule } from '../reply-need/reply-need.module'
 import { MessagesResolver } from './messages.resolver'
 import { MessagesService } from './messages.service'
+import { ReplayService } from './replay.service'
+import { TextNormalizer } from './text-normalizer'
 
 @Module({
-  imports: [DbModule, EmbeddingsModule],
-  providers: [MessagesService, MessagesResolver],
-  exports: [MessagesService]
+  imports: [DbModule, EmbeddingsModule, CreatorSettingsModule, RedactionModule, ReplyNeedModule],
+  providers: [MessagesService, ReplayService, TextNormalizer, MessagesResolver],
+  exports: [MessagesService, ReplayService]
 })
 export class MessagesModule {}
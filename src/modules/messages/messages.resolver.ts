@@ -1,14 +1,89 @@
-import { Args, Mutation, Resolver } from '@nestjs/graphql'
+import { ParseArrayPipe } from '@nestjs/common'
+import { Args, ID, Int, Mutation, Query, Resolver } from '@nestjs/graphql'
+import { RedactionCount } from '../redaction/redaction-count.model'
+import { IngestBatchItemResult } from './ingest-batch-item-result.model'
 import { IngestMessageInput } from './ingest-message.input'
 import { IngestResult } from './ingest-result.model'
+import { Message } from './message.model'
 import { MessagesService } from './messages.service'
+import { PreviewSettingsInput } from './preview-settings.input'
+import { ReplayResult } from './replay-result.model'
+import { ReplayService } from './replay.service'
+import { ReclusterResult } from './recluster-result.model'
 
 @Resolver()
 export class MessagesResolver {
-  constructor(private messages: MessagesService) {}
+  constructor(
+    private messages: MessagesService,
+    private replay: ReplayService
+  ) {}
 
   @Mutation(() => IngestResult)
   ingestMessage(@Args('input') input: IngestMessageInput): Promise<IngestResult> {
     return this.messages.ingestMessage(input)
   }
+
+  @Query(() => Message, {
+    nullable: true,
+    description: 'A message with its clustering status, e.g. to follow an async ingest'
+  })
+  message(@Args('id', { type: () => ID }) id: string): Promise<Message | null> {
+    return this.messages.getMessage(id)
+  }
+
+  @Query(() => [RedactionCount], {
+    description: "Audit: personal data redacted from a creator's messages, per placeholder type"
+  })
+  redactionCounts(@Args('creatorId', { type: () => ID }) creatorId: string): Promise<RedactionCount[]> {
+    return this.messages.getRedactionCounts(creatorId)
+  }
+
+  @Query(() => IngestResult, {
+    description: 'Run ingest for a message and roll it back'
+  })
+  previewIngest(
+    @Args('input') input: IngestMessageInput,
+    @Args('settings', { nullable: true }) settings?: PreviewSettingsInput
+  ): Promise<IngestResult> {
+    return this.messages.previewIngest(input, settings)
+  }
+
+  @Query(() => ReplayResult, {
+    description: "Admin: replay a creator's pending messages with candidate thresholds and diff against live clusters"
+  })
+  replayClustering(
+    @Args('creatorId', { type: () => ID }) creatorId: string,
+    @Args('settings', { nullable: true }) settings?: PreviewSettingsInput
+  ): Promise<ReplayResult> {
+    return this.replay.replayCreatorMessages(creatorId, settings)
+  }
+
+  @Mutation(() => [IngestBatchItemResult])
+  ingestMessages(
+    @Args('inputs', { type: () => [IngestMessageInput] }, new ParseArrayPipe({ items: IngestMessageInput }))
+    inputs: IngestMessageInput[]
+  ): Promise<IngestBatchItemResult[]> {
+    return this.messages.ingestMessages(inputs)
+  }
+
+  @Mutation(() => Int, {
+    description: 'Number of pending messages marked as replied'
+  })
+  markChannelReplied(
+    @Args('creatorId', { type: () => ID }) creatorId: string,
+    @Args('channelId') channelId: string,
+    @Args('repliedAt', { nullable: true }) repliedAt?: Date
+  ): Promise<number> {
+    return this.messages.markChannelReplied(creatorId, channelId, repliedAt)
+  }
+
+  @Mutation(() => ReclusterResult)
+  reclusterMessage(@Args('messageId', { type: () => ID }) messageId: string): Promise<ReclusterResult> {
+    return this.messages.reclusterMessage(messageId)
+  }
+
+  @Mutation(() => [ReclusterResult])
+  reclusterCreatorMessages(@Args('creatorId', { type: () => ID }) creatorId: string): Promise<ReclusterResult[]> {
+    return this.messages.reclusterCreatorMessages(creatorId)
+  }
 }
@@ -1,17 +1,73 @@
-import { Injectable } from "@nestjs/common";
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PoolClient } from "pg";
 import { DbService } from "../../db/db.service";
 import { toVectorLiteral } from "../../db/vector";
+import { refreshClusterCentroids } from "../clusters/cluster-centroid";
+import { CreatorSettingsService } from "../creator-settings/creator-settings.service";
+import { EmbeddingUnavailableError } from "../embeddings/embedding-errors";
 import { EmbeddingsService } from "../embeddings/embeddings.service";
+import { RedactionCount } from "../redaction/redaction-count.model";
+import { RedactionService } from "../redaction/redaction.service";
+import {
+  REPLY_NEED_CLASSIFIER,
+  ReplyNeedClassifier,
+} from "../reply-need/reply-need-classifier";
+import { ReplyNeed } from "../reply-need/reply-need.model";
+import { ClusteringStatus } from "./clustering-status.enum";
+import { IngestBatchItemResult } from "./ingest-batch-item-result.model";
 import { IngestMessageInput } from "./ingest-message.input";
+import { IngestOutcome } from "./ingest-outcome.enum";
 import { IngestResult } from "./ingest-result.model";
+import { MatchCandidate } from "./match-candidate.model";
+import { MatchReason } from "./match-reason.enum";
+import { Message } from "./message.model";
+import { MessageRow, mapMessageRow } from "./message-row";
+import { PreviewSettingsInput } from "./preview-settings.input";
+import { ReclusterResult } from "./recluster-result.model";
+import { TextNormalizer } from "./text-normalizer";
 
-// TODO: Move to feature flag system for controlled rollout in production
-const SIMILARITY_THRESHOLD = 0.75; // Vector cosine similarity - raised to prevent mixed intent clusters
-const TRIGRAM_THRESHOLD = 0.85; // pg_trgm similarity (near-exact text matching)
+// Similarity and trigram thresholds are per creator (CreatorSettingsService)
+const MAX_BATCH_SIZE = 500; // Upper bound for a single ingestMessages call
+const INGEST_QUEUE_BATCH = 50; // Queued messages placed per processIngestQueue call
+const PENDING_EMBEDDING_BATCH = 50; // Pending messages embedded per processPendingEmbeddings call
+const PREVIEW_CANDIDATES = 5; // Candidates listed by previewIngest unless the input asks for more or fewer
+const CLASSIFY_CONCURRENCY = 10; // Reply need classifications in flight at once in classifyUpFront
 
-// NOTE: In production, integrate with StreamChatTaggingProcessor in ltfollowers
-// Use its `needs_reply` classification to gate ingest (skip greetings, acks, etc.)
-// This avoids duplicating heuristics/LLM calls
+// Text the trigram match compares; messages stored before normalization
+// (or inserted by hand) fall back to their raw text
+const MATCH_TEXT = "COALESCE(m.normalized_text, m.text)";
+
+// Pending, non-paid messages of creator $2 that need a reply, other than
+// message $3 and from a channel other than $4, that are not in a cluster
+// already holding channel $4
+const CANDIDATE_FILTER = `
+  m.creator_id = $2
+  AND m.replied_at IS NULL
+  AND m.is_paid_dm = false
+  AND m.needs_reply
+  AND m.id <> $3
+  AND m.channel_id <> $4
+  AND (c.status IS NULL OR c.status = 'open')
+  AND NOT EXISTS (
+    SELECT 1 FROM cluster_messages cm3
+    JOIN messages m3 ON m3.id = cm3.message_id
+    WHERE cm3.cluster_id = cm.cluster_id
+      AND m3.channel_id = $4
+  )
+`;
+
+// centroid: compare against each open cluster's mean embedding (and against
+// detached messages, which act as clusters of one)
+// nearest_message: compare against the single most similar pending message
+const CLUSTER_MATCH_STRATEGIES = ["centroid", "nearest_message"] as const;
+
+type ClusterMatchStrategy = (typeof CLUSTER_MATCH_STRATEGIES)[number];
 
 type MatchRow = {
   id: string;
@@ -19,8 +75,64 @@ type MatchRow = {
   similarity: number;
 };
 
+type ExistingMessageRow = {
+  id: string;
+  text: string;
+  ingest_result: IngestResult | null;
+  redaction_counts: RedactionCount[] | null;
+};
+
+// An incoming message in the form it is stored, matched and embedded
+type PreparedMessage = {
+  text: string;
+  normalizedText: string;
+  rawPayload: Record<string, unknown> | undefined;
+  redactions: RedactionCount[];
+};
+
+type QueuedMessageRow = MessageRow & {
+  ingest_result: IngestResult;
+};
+
+// An embedding with the provider and model that produced it. Both are null
+// for embeddings stored before they were recorded.
+export type ProvidedEmbedding = {
+  embedding: number[];
+  provider: string | null;
+  model: string | null;
+};
+
+type DetachedMessageRow = {
+  id: string;
+  creator_id: string;
+  channel_id: string;
+  text: string;
+  normalized_text: string | null;
+  embedding: string | null;
+  embedding_model: string | null;
+  replied_at: Date | null;
+  is_paid_dm: boolean;
+  clustering_status: ClusteringStatus;
+  needs_reply: boolean;
+  cluster_id: string | null;
+};
+
+type PendingMessageRow = DetachedMessageRow & {
+  cluster_status: string | null;
+  cluster_size: number;
+};
+
+type CandidateRow = {
+  id: string;
+  cluster_id: string | null;
+  trigram_similarity: number;
+  cosine_similarity: number | null;
+  centroid_similarity: number | null;
+};
+
 type TrigramMatchRow = {
   id: string;
+  channel_id: string;
   cluster_id: string | null;
   trgm_similarity: number;
   cluster_has_embeddings: boolean;
@@ -28,188 +140,1458 @@ type TrigramMatchRow = {
 
 @Injectable()
 export class MessagesService {
+  private readonly logger = new Logger(MessagesService.name);
+
   constructor(
     private db: DbService,
     private embeddings: EmbeddingsService,
+    private config: ConfigService,
+    private settings: CreatorSettingsService,
+    private normalizer: TextNormalizer,
+    private redaction: RedactionService,
+    @Inject(REPLY_NEED_CLASSIFIER) private classifier: ReplyNeedClassifier,
   ) {}
 
+  /**
+   * Ingest one message. With INGEST_MODE=async the message is only stored
+   * and the result has a Pending clustering status; the ingest worker
+   * embeds and clusters it (processIngestQueue).
+   */
   async ingestMessage(input: IngestMessageInput): Promise<IngestResult> {
-    const isPaidDm = input.isPaidDm === true;
-    const createdAt = input.createdAt || new Date();
+    const prepared = this.asyncIngest
+      ? null
+      : await this.prepareUpFront([input]);
 
     return this.db.withClient(async (client) => {
       await client.query("BEGIN");
       try {
-        let embeddingLiteral: string | null = null;
-        let matchedMessageId: string | undefined;
-        let similarity: number | undefined;
-        let clusterId: string | undefined;
-        let skippedEmbedding = false;
-
-        // Step 1: Check for near-exact trigram match (before calling embedding API)
-        if (!isPaidDm) {
-          const trigramMatch = await client.query<TrigramMatchRow>(
-            `
-              SELECT
-                m.id,
-                cm.cluster_id,
-                similarity(m.text, $1) AS trgm_similarity,
-                EXISTS (
-                  SELECT 1 FROM cluster_messages cm2
-                  JOIN messages m2 ON m2.id = cm2.message_id
-                  WHERE cm2.cluster_id = cm.cluster_id
-                    AND m2.embedding IS NOT NULL
-                    AND m2.id <> m.id
-                ) AS cluster_has_embeddings
-              FROM messages m
-              LEFT JOIN cluster_messages cm
-                ON cm.message_id = m.id
-              LEFT JOIN clusters c
-                ON c.id = cm.cluster_id
-              WHERE m.creator_id = $2
-                AND m.replied_at IS NULL
-                AND m.is_paid_dm = false
-                AND similarity(m.text, $1) > $3
-                AND (c.status IS NULL OR c.status = 'open')
-              ORDER BY similarity(m.text, $1) DESC
-              LIMIT 1
-            `,
-            [input.text, input.creatorId, TRIGRAM_THRESHOLD],
-          );
+        const result = prepared
+          ? await this.ingestWithClient(
+              client,
+              input,
+              prepared.embed,
+              prepared.classify,
+            )
+          : await this.enqueueWithClient(client, input);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  // CLUSTER_MATCH_STRATEGY picks what vector matching compares against
+  private get clusterMatchStrategy(): ClusterMatchStrategy {
+    const strategy =
+      this.config.get<string>("CLUSTER_MATCH_STRATEGY") || "centroid";
+    if (!(CLUSTER_MATCH_STRATEGIES as readonly string[]).includes(strategy)) {
+      throw new Error(
+        `Unknown CLUSTER_MATCH_STRATEGY "${strategy}" (available: ${CLUSTER_MATCH_STRATEGIES.join(", ")})`,
+      );
+    }
+    return strategy as ClusterMatchStrategy;
+  }
 
-          if (trigramMatch.rowCount && trigramMatch.rowCount > 0) {
-            const match = trigramMatch.rows[0];
-            matchedMessageId = match.id;
-            similarity = Number(match.trgm_similarity);
-
-            if (match.cluster_id) {
-              // Join existing cluster
-              clusterId = match.cluster_id;
-              // Skip embedding only if cluster has other messages with embeddings
-              if (match.cluster_has_embeddings) {
-                skippedEmbedding = true;
-              }
-            }
-            // If no cluster_id, we still need to create cluster and embed
-            // (the matched message will need an embedding too)
+  // INGEST_MODE=async leaves embedding and clustering to the ingest worker
+  private get asyncIngest(): boolean {
+    return this.config.get<string>("INGEST_MODE") === "async";
+  }
+
+  async getMessage(id: string): Promise<Message | null> {
+    const message = await this.db.query<MessageRow>(
+      `
+        SELECT m.*, cm.cluster_id
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        WHERE m.id = $1
+      `,
+      [id],
+    );
+
+    return message.rows[0] ? mapMessageRow(message.rows[0]) : null;
+  }
+
+  /**
+   * Personal data redacted from a creator's stored messages, per placeholder
+   * type. Counted at ingest, so it also covers creators that keep raw text.
+   */
+  async getRedactionCounts(creatorId: string): Promise<RedactionCount[]> {
+    const counts = await this.db.query<{ type: string; count: number }>(
+      `
+        SELECT r.type, SUM(r.count)::int AS count
+        FROM messages m
+        CROSS JOIN LATERAL jsonb_to_recordset(m.redaction_counts)
+          AS r(type text, count int)
+        WHERE m.creator_id = $1
+        GROUP BY r.type
+        ORDER BY r.type
+      `,
+      [creatorId],
+    );
+
+    return counts.rows;
+  }
+
+  /**
+   * Ingest many messages in one transaction.
+   * Before the transaction opens, the texts are classified for reply need
+   * and those that can reach vector matching are embedded in a single
+   * provider round-trip (prepareUpFront), then each
+   * message runs through the same pipeline as `ingestMessage` in input order,
+   * so later messages can cluster with earlier ones from the same batch.
+   * Each message gets its own savepoint: a failure is reported for that item
+   * and does not roll back the rest of the batch.
+   * With INGEST_MODE=async every message is only stored, as in `ingestMessage`.
+   */
+  async ingestMessages(
+    inputs: IngestMessageInput[],
+  ): Promise<IngestBatchItemResult[]> {
+    if (inputs.length > MAX_BATCH_SIZE) {
+      throw new BadRequestException(
+        `Batch size cannot exceed ${MAX_BATCH_SIZE} messages`,
+      );
+    }
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const prepared = this.asyncIngest
+      ? null
+      : await this.prepareUpFront(inputs);
+
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const results: IngestBatchItemResult[] = [];
+        for (const [index, input] of inputs.entries()) {
+          await client.query("SAVEPOINT ingest_item");
+          try {
+            const result = prepared
+              ? await this.ingestWithClient(
+                  client,
+                  input,
+                  prepared.embed,
+                  prepared.classify,
+                )
+              : await this.enqueueWithClient(client, input);
+            await client.query("RELEASE SAVEPOINT ingest_item");
+            results.push({ index, result });
+          } catch (error) {
+            await client.query("ROLLBACK TO SAVEPOINT ingest_item");
+            results.push({ index, error: (error as Error).message });
           }
         }
+        await client.query("COMMIT");
+        return results;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Classify and embed messages before any transaction is opened, so no row
+   * lock is held across a provider call. Returns the `embed` and `classify`
+   * callbacks for ingestWithClient.
+   */
+  private async prepareUpFront(inputs: IngestMessageInput[]): Promise<{
+    embed: (text: string) => Promise<ProvidedEmbedding>;
+    classify: (text: string) => Promise<ReplyNeed>;
+  }> {
+    const fresh = await this.freshInputs(inputs);
+    const classify = await this.classifyUpFront(
+      fresh.map((input) => this.matchText(input.text)),
+    );
+    const embed = await this.embedUpFront(
+      await this.textsToEmbed(fresh, classify),
+    );
+    return { embed, classify };
+  }
+
+  // Inputs that are not redeliveries with unchanged text, which replay their
+  // stored result without reaching the pipeline
+  private async freshInputs(
+    inputs: IngestMessageInput[],
+  ): Promise<IngestMessageInput[]> {
+    const known = await this.db.query<{
+      creator_id: string;
+      external_message_id: string;
+      text: string;
+    }>(
+      `
+        SELECT m.creator_id, m.external_message_id, m.text
+        FROM messages m
+        JOIN unnest($1::text[], $2::text[]) AS k(creator_id, external_message_id)
+          ON k.creator_id = m.creator_id
+          AND k.external_message_id = m.external_message_id
+      `,
+      [
+        inputs.map((input) => input.creatorId),
+        inputs.map((input) => input.messageId),
+      ],
+    );
+    const knownTexts = new Map(
+      known.rows.map((row) => [
+        `${row.creator_id}:${row.external_message_id}`,
+        row.text,
+      ]),
+    );
+    return inputs.filter((input) => {
+      // Stored redacted when the creator does not keep raw text
+      const known = knownTexts.get(`${input.creatorId}:${input.messageId}`);
+      return (
+        known !== input.text && known !== this.redaction.redact(input.text).text
+      );
+    });
+  }
 
-        // Step 2: Get embedding if not skipped
-        if (!skippedEmbedding) {
-          const embedding = await this.embeddings.embed(input.text);
-          embeddingLiteral = toVectorLiteral(embedding);
+  /**
+   * Texts of fresh inputs that can reach Step 2 of ingestWithClient, in the
+   * form it embeds: messages that need no reply and messages a trigram match
+   * places in a cluster with embeddings are left out. Read without locks, so
+   * a text the stored messages no longer match is embedded on demand.
+   */
+  private async textsToEmbed(
+    inputs: IngestMessageInput[],
+    classify: (text: string) => Promise<ReplyNeed>,
+  ): Promise<string[]> {
+    const texts = new Set<string>();
+    await this.db.withClient(async (client) => {
+      for (const input of inputs) {
+        const text = this.matchText(input.text);
+        if (texts.has(text)) {
+          continue;
         }
+        if (input.isPaidDm !== true) {
+          if (!(await classify(text)).needsReply) {
+            continue;
+          }
+          const settings = await this.settings.getSettings(
+            input.creatorId,
+            client,
+          );
+          const match = await this.findTrigramMatch(
+            client,
+            text,
+            input.creatorId,
+            input.messageId,
+            settings.trigramThreshold,
+          );
+          if (match?.cluster_id && match.cluster_has_embeddings) {
+            continue;
+          }
+        }
+        texts.add(text);
+      }
+    });
+    return Array.from(texts);
+  }
 
-        // Step 3: Insert the message
-        const insert = await client.query<{ id: string }>(
+  /**
+   * Embed texts in a single provider round-trip, before any transaction is
+   * opened. Returns the `embed` callback for ingestWithClient; texts that
+   * were not embedded here are embedded on demand.
+   */
+  private async embedUpFront(
+    texts: string[],
+  ): Promise<(text: string) => Promise<ProvidedEmbedding>> {
+    // With the provider down, every item is stored without an embedding
+    // rather than retried one by one
+    let unavailable: EmbeddingUnavailableError | null = null;
+    let vectors: number[][] = [];
+    try {
+      vectors = await this.embeddings.embedMany(texts);
+    } catch (error) {
+      if (!(error instanceof EmbeddingUnavailableError)) {
+        throw error;
+      }
+      unavailable = error;
+    }
+    const embeddingsByText = new Map<string, ProvidedEmbedding>(
+      vectors.map((embedding, index) => [
+        texts[index],
+        {
+          embedding,
+          provider: this.embeddings.providerName,
+          model: this.embeddings.modelName,
+        },
+      ]),
+    );
+
+    return (text) =>
+      embeddingsByText.has(text)
+        ? Promise.resolve(embeddingsByText.get(text)!)
+        : unavailable
+          ? Promise.reject(unavailable)
+          : this.embedWithProvider(text);
+  }
+
+  /**
+   * Classify the reply need of texts (as matched, see matchText) before any
+   * transaction is opened, so no row lock waits on the classifier. Returns
+   * the `classify` callback for ingestWithClient; texts that were not
+   * classified here are classified on demand.
+   */
+  async classifyUpFront(
+    texts: string[],
+  ): Promise<(text: string) => Promise<ReplyNeed>> {
+    const verdicts = new Map<string, ReplyNeed>();
+    const unique = Array.from(new Set(texts));
+    for (let start = 0; start < unique.length; start += CLASSIFY_CONCURRENCY) {
+      const slice = unique.slice(start, start + CLASSIFY_CONCURRENCY);
+      const classified = await Promise.all(
+        slice.map((text) => this.classifyReplyNeed(text)),
+      );
+      slice.forEach((text, index) => verdicts.set(text, classified[index]));
+    }
+
+    return (text) =>
+      verdicts.has(text)
+        ? Promise.resolve(verdicts.get(text)!)
+        : this.classifyReplyNeed(text);
+  }
+
+  /**
+   * Embed, before any transaction is opened, the stored messages whose
+   * embedding is missing or from another model. Returns the `embed` callback
+   * for the re-clustering and pending-embedding paths.
+   */
+  private async embedStale(
+    messageIds: string[],
+  ): Promise<(text: string) => Promise<ProvidedEmbedding>> {
+    const stale = await this.db.query<{
+      text: string;
+      normalized_text: string | null;
+    }>(
+      `
+        SELECT text, normalized_text
+        FROM messages
+        WHERE id = ANY($1)
+          AND (embedding IS NULL OR embedding_model IS DISTINCT FROM $2)
+      `,
+      [messageIds, this.embeddings.modelName],
+    );
+    return this.embedUpFront(
+      Array.from(
+        new Set(
+          stale.rows.map(
+            (row) => row.normalized_text ?? this.matchText(row.text),
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Run the full ingest pipeline for a message, then roll it back.
+   * Shows which cluster the message would join (a `NewCluster` result
+   * carries an id that does not persist), what it would supersede and the
+   * candidate scores, optionally with thresholds the creator has not saved.
+   */
+  async previewIngest(
+    input: IngestMessageInput,
+    overrides?: PreviewSettingsInput,
+  ): Promise<IngestResult> {
+    const { embed, classify } = await this.prepareUpFront([input]);
+
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        return await this.ingestWithClient(
+          client,
+          {
+            ...input,
+            explainCandidates: input.explainCandidates ?? PREVIEW_CANDIDATES,
+          },
+          embed,
+          classify,
+          overrides,
+        );
+      } finally {
+        await client.query("ROLLBACK");
+      }
+    });
+  }
+
+  /**
+   * Record that the creator answered a channel outside the cluster UI
+   * (e.g. directly in the Stream inbox). Every message in the channel that
+   * was still pending at `repliedAt` is stamped as replied and pulled out of
+   * its cluster; clusters left empty are deleted.
+   * Returns the number of messages marked as replied.
+   */
+  async markChannelReplied(
+    creatorId: string,
+    channelId: string,
+    repliedAt: Date = new Date(),
+  ): Promise<number> {
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const replied = await client.query<{ id: string }>(
           `
-            INSERT INTO messages (
-              external_message_id,
-              creator_id,
-              channel_id,
-              channel_cid,
-              visitor_user_id,
-              visitor_username,
-              text,
-              embedding,
-              created_at,
-              is_paid_dm,
-              raw_payload
-            )
-            VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+            UPDATE messages
+            SET replied_at = $3
+            WHERE creator_id = $1
+              AND channel_id = $2
+              AND replied_at IS NULL
+              AND created_at <= $3
             RETURNING id
           `,
-          [
-            input.messageId,
-            input.creatorId,
-            input.channelId,
-            input.channelCid || null,
-            input.visitorUserId || null,
-            input.visitorUsername || null,
-            input.text,
-            embeddingLiteral,
-            createdAt,
-            isPaidDm,
-            input.rawPayload ? JSON.stringify(input.rawPayload) : null,
-          ],
+          [creatorId, channelId, repliedAt],
+        );
+
+        for (const row of replied.rows) {
+          await this.detachMessage(client, row.id);
+        }
+
+        await client.query("COMMIT");
+        return replied.rowCount || 0;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run clustering again for a message that is not in any cluster (removed
+   * via removeClusterMessage, or superseded by a newer message from the same
+   * channel). Uses the same trigram-then-vector matching as ingest, but a
+   * message that finds no match stays detached instead of getting its own
+   * cluster. A cluster that already holds a message from the same channel is
+   * never joined (one message per channel per cluster).
+   */
+  async reclusterMessage(messageId: string): Promise<ReclusterResult> {
+    const embed = await this.embedStale([messageId]);
+    const result = await this.reclusterIfDetached(messageId, embed);
+    if (!result) {
+      throw new Error("Message is already in a cluster");
+    }
+    return result;
+  }
+
+  /**
+   * Re-cluster every detached, pending message of a creator, oldest first, so
+   * detached messages can group with each other as well as with open clusters.
+   */
+  async reclusterCreatorMessages(
+    creatorId: string,
+  ): Promise<ReclusterResult[]> {
+    const detached = await this.db.query<{ id: string }>(
+      `
+        SELECT m.id
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        WHERE m.creator_id = $1
+          AND m.replied_at IS NULL
+          AND m.is_paid_dm = false
+          AND m.needs_reply
+          AND m.clustering_status = 'clustered'
+          AND cm.message_id IS NULL
+        ORDER BY m.created_at ASC
+      `,
+      [creatorId],
+    );
+
+    const embed = await this.embedStale(detached.rows.map((row) => row.id));
+    const results: ReclusterResult[] = [];
+    for (const row of detached.rows) {
+      // Null when an earlier message in this run already pulled it into a cluster
+      const result = await this.reclusterIfDetached(row.id, embed);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Place messages stored by an async ingest, oldest first: embed the batch
+   * in one provider round-trip outside any transaction, then run each
+   * message through the ingest pipeline in its own short transaction.
+   * A message answered while it was queued is not clustered. Returns the
+   * number of messages taken off the queue.
+   */
+  async processIngestQueue(limit = INGEST_QUEUE_BATCH): Promise<number> {
+    const queued = await this.db.query<{ id: string; text: string }>(
+      `
+        SELECT id, text
+        FROM messages
+        WHERE clustering_status = 'pending'
+        ORDER BY created_at ASC, id ASC
+        LIMIT $1
+      `,
+      [limit],
+    );
+    if (queued.rows.length === 0) {
+      return 0;
+    }
+
+    // While the provider is down the messages are placed by trigram only
+    // and wait for processPendingEmbeddings, as in a synchronous ingest
+    const texts = Array.from(
+      new Set(queued.rows.map((row) => this.matchText(row.text))),
+    );
+    const embed = await this.embedUpFront(texts);
+    const classify = await this.classifyUpFront(texts);
+
+    let processed = 0;
+    for (const row of queued.rows) {
+      try {
+        if (await this.placeQueuedMessage(row.id, embed, classify)) {
+          processed += 1;
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Placing queued message ${row.id} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return processed;
+  }
+
+  // False when the message is no longer queued (placed concurrently)
+  private async placeQueuedMessage(
+    messageId: string,
+    embed: (text: string) => Promise<ProvidedEmbedding>,
+    classify: (text: string) => Promise<ReplyNeed>,
+  ): Promise<boolean> {
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const message = await client.query<QueuedMessageRow>(
+          `
+            SELECT *
+            FROM messages
+            WHERE id = $1
+              AND clustering_status = 'pending'
+            FOR UPDATE
+          `,
+          [messageId],
+        );
+
+        const row = message.rows[0];
+        if (!row) {
+          await client.query("ROLLBACK");
+          return false;
+        }
+
+        if (row.replied_at) {
+          await client.query(
+            `
+              UPDATE messages
+              SET clustering_status = 'clustered'
+              WHERE id = $1
+            `,
+            [row.id],
+          );
+        } else {
+          await this.ingestWithClient(
+            client,
+            {
+              creatorId: row.creator_id,
+              messageId: row.external_message_id,
+              text: row.text,
+              channelId: row.channel_id,
+              channelCid: row.channel_cid ?? undefined,
+              visitorUserId: row.visitor_user_id ?? undefined,
+              visitorUsername: row.visitor_username ?? undefined,
+              createdAt: row.created_at,
+              isPaidDm: row.is_paid_dm,
+            },
+            embed,
+            classify,
+            undefined,
+            row.ingest_result.outcome,
+          );
+        }
+
+        await client.query("COMMIT");
+        return true;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Embed messages that were stored without an embedding while the provider
+   * was unavailable, oldest first, and re-cluster them. A message still alone
+   * in an open cluster (trigram found nothing at ingest) is matched again by
+   * vector: it joins the matching cluster or gets a new cluster of its own.
+   * Any other message keeps its cluster and only refreshes the centroid.
+   * Stops early while the provider is still unavailable; the rest stay queued.
+   * Returns the number of messages embedded.
+   */
+  async processPendingEmbeddings(
+    limit = PENDING_EMBEDDING_BATCH,
+  ): Promise<number> {
+    const pending = await this.db.query<{ id: string }>(
+      `
+        SELECT id
+        FROM messages
+        WHERE embedding_pending_since IS NOT NULL
+        ORDER BY embedding_pending_since ASC, id ASC
+        LIMIT $1
+      `,
+      [limit],
+    );
+
+    // One provider round-trip, outside the per-message transactions
+    const embed = await this.embedStale(pending.rows.map((row) => row.id));
+
+    let processed = 0;
+    for (const row of pending.rows) {
+      if (!this.embeddings.available) {
+        break;
+      }
+      try {
+        if (await this.embedPendingMessage(row.id, embed)) {
+          processed += 1;
+        }
+      } catch (error) {
+        if (error instanceof EmbeddingUnavailableError) {
+          break;
+        }
+        // Leave it queued, but do not let one message hold up the rest
+        this.logger.warn(
+          `Embedding pending message ${row.id} failed: ${(error as Error).message}`,
         );
+      }
+    }
 
-        const messageId = insert.rows[0].id;
+    return processed;
+  }
+
+  // False when the message is no longer pending (handled concurrently)
+  private async embedPendingMessage(
+    messageId: string,
+    embed: (text: string) => Promise<ProvidedEmbedding>,
+  ): Promise<boolean> {
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const message = await client.query<PendingMessageRow>(
+          `
+            SELECT
+              m.id,
+              m.creator_id,
+              m.channel_id,
+              m.text,
+              m.normalized_text,
+              m.embedding::text AS embedding,
+              m.embedding_model,
+              m.replied_at,
+              m.is_paid_dm,
+              m.clustering_status,
+              m.needs_reply,
+              cm.cluster_id,
+              c.status AS cluster_status,
+              (
+                SELECT COUNT(*)
+                FROM cluster_messages cm2
+                WHERE cm2.cluster_id = cm.cluster_id
+              )::int AS cluster_size
+            FROM messages m
+            LEFT JOIN cluster_messages cm
+              ON cm.message_id = m.id
+            LEFT JOIN clusters c
+              ON c.id = cm.cluster_id
+            WHERE m.id = $1
+              AND m.embedding_pending_since IS NOT NULL
+            FOR UPDATE OF m
+          `,
+          [messageId],
+        );
+
+        const row = message.rows[0];
+        if (!row) {
+          await client.query("ROLLBACK");
+          return false;
+        }
 
-        // Step 3.5: Remove old messages from same channel from clusters (one msg per channel rule)
         await client.query(
           `
-            DELETE FROM cluster_messages cm
-            USING messages m
-            WHERE cm.message_id = m.id
-              AND m.channel_id = $1
-              AND m.creator_id = $2
-              AND m.id <> $3
+            UPDATE messages
+            SET embedding_pending_since = NULL
+            WHERE id = $1
           `,
-          [input.channelId, input.creatorId, messageId],
+          [row.id],
         );
 
-        // Step 4: If we didn't find a cluster via trigram, try vector similarity
-        if (!clusterId && !isPaidDm && embeddingLiteral) {
-          const match = await client.query<MatchRow>(
+        if (
+          row.cluster_id &&
+          row.cluster_size === 1 &&
+          row.cluster_status === "open" &&
+          !row.replied_at &&
+          !row.is_paid_dm
+        ) {
+          // Drops the single-message cluster; reclusterWithClient embeds
+          await this.detachMessage(client, row.id);
+          const result = await this.reclusterWithClient(
+            client,
+            { ...row, cluster_id: null },
+            embed,
+          );
+          if (!result.clusterId) {
+            const clusterInsert = await client.query<{ id: string }>(
+              `
+                INSERT INTO clusters (creator_id)
+                VALUES ($1)
+                RETURNING id
+              `,
+              [row.creator_id],
+            );
+            await this.addToCluster(client, clusterInsert.rows[0].id, row.id);
+          }
+        } else {
+          const { embedding, provider, model } = await embed(
+            row.normalized_text ?? this.matchText(row.text),
+          );
+          await client.query(
             `
-              SELECT
-                m.id,
-                cm.cluster_id,
-                (1 - (m.embedding <=> $1)) AS similarity
-              FROM messages m
-              LEFT JOIN cluster_messages cm
-                ON cm.message_id = m.id
-              LEFT JOIN clusters c
-                ON c.id = cm.cluster_id
-              WHERE m.creator_id = $2
-                AND m.replied_at IS NULL
-                AND m.is_paid_dm = false
-                AND m.id <> $3
-                AND m.embedding IS NOT NULL
-                AND (c.status IS NULL OR c.status = 'open')
-              ORDER BY m.embedding <=> $1
-              LIMIT 1
+              UPDATE messages
+              SET embedding = $2,
+                  embedding_provider = $3,
+                  embedding_model = $4
+              WHERE id = $1
             `,
-            [embeddingLiteral, input.creatorId, messageId],
+            [row.id, toVectorLiteral(embedding), provider, model],
           );
+          if (row.cluster_id) {
+            await refreshClusterCentroids(
+              client,
+              [row.cluster_id],
+              this.embeddings.modelName,
+            );
+          }
+        }
+
+        await client.query("COMMIT");
+        return true;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  private async reclusterIfDetached(
+    messageId: string,
+    embed: (text: string) => Promise<ProvidedEmbedding>,
+  ): Promise<ReclusterResult | null> {
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const message = await client.query<DetachedMessageRow>(
+          `
+            SELECT
+              m.id,
+              m.creator_id,
+              m.channel_id,
+              m.text,
+              m.normalized_text,
+              m.embedding::text AS embedding,
+              m.embedding_model,
+              m.replied_at,
+              m.is_paid_dm,
+              m.clustering_status,
+              m.needs_reply,
+              cm.cluster_id
+            FROM messages m
+            LEFT JOIN cluster_messages cm
+              ON cm.message_id = m.id
+            WHERE m.id = $1
+            FOR UPDATE OF m
+          `,
+          [messageId],
+        );
+
+        if (!message.rows[0]) {
+          throw new Error("Message not found");
+        }
+
+        const row = message.rows[0];
+        if (row.cluster_id) {
+          await client.query("ROLLBACK");
+          return null;
+        }
+        if (row.replied_at || row.is_paid_dm) {
+          throw new Error("Replied messages and paid DMs cannot be clustered");
+        }
+        if (row.clustering_status === ClusteringStatus.Pending) {
+          throw new Error("Message is still queued for clustering");
+        }
+        if (!row.needs_reply) {
+          throw new Error("Messages that need no reply are not clustered");
+        }
+
+        const result = await this.reclusterWithClient(client, row, embed);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  private async reclusterWithClient(
+    client: PoolClient,
+    message: DetachedMessageRow,
+    embed: (text: string) => Promise<ProvidedEmbedding>,
+  ): Promise<ReclusterResult> {
+    const settings = await this.settings.getSettings(
+      message.creator_id,
+      client,
+    );
+    const normalizedText =
+      message.normalized_text ?? this.matchText(message.text);
+
+    // Step 1: Near-exact trigram match against a clustered message
+    const trigramMatch = await client.query<TrigramMatchRow>(
+      `
+        SELECT
+          m.id,
+          m.channel_id,
+          cm.cluster_id,
+          similarity(${MATCH_TEXT}, $1) AS trgm_similarity
+        FROM messages m
+        JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        JOIN clusters c
+          ON c.id = cm.cluster_id
+        WHERE ${CANDIDATE_FILTER}
+          AND similarity(${MATCH_TEXT}, $1) > $5
+        ORDER BY similarity(${MATCH_TEXT}, $1) DESC
+        LIMIT 1
+      `,
+      [
+        normalizedText,
+        message.creator_id,
+        message.id,
+        message.channel_id,
+        settings.trigramThreshold,
+      ],
+    );
+
+    if (trigramMatch.rowCount && trigramMatch.rowCount > 0) {
+      const match = trigramMatch.rows[0];
+      await this.addToCluster(client, match.cluster_id!, message.id);
+      return {
+        messageId: message.id,
+        clusterId: match.cluster_id!,
+        matchedMessageId: match.id,
+        similarity: Number(match.trgm_similarity),
+      };
+    }
 
-          if (
-            match.rowCount &&
-            match.rowCount > 0 &&
-            match.rows[0].similarity >= SIMILARITY_THRESHOLD
-          ) {
-            matchedMessageId = match.rows[0].id;
-            similarity = Number(match.rows[0].similarity);
-            if (match.rows[0].cluster_id) {
-              clusterId = match.rows[0].cluster_id;
-            } else {
-              // Matched message not in cluster - create one and add both
-              const clusterInsert = await client.query<{ id: string }>(
-                `
-                  INSERT INTO clusters (creator_id)
-                  VALUES ($1)
-                  RETURNING id
-                `,
-                [input.creatorId],
-              );
-              clusterId = clusterInsert.rows[0].id;
-              await client.query(
-                `
-                  INSERT INTO cluster_messages (cluster_id, message_id)
-                  VALUES ($1, $2)
-                  ON CONFLICT (message_id) DO UPDATE SET
-                    cluster_id = EXCLUDED.cluster_id
-                `,
-                [clusterId, matchedMessageId],
-              );
-            }
+    // Step 2: Vector match (embed now if ingest skipped it, or if the stored
+    // embedding is from another model)
+    let embeddingLiteral = message.embedding;
+    if (
+      !embeddingLiteral ||
+      message.embedding_model !== this.embeddings.modelName
+    ) {
+      const { embedding, provider, model } = await embed(normalizedText);
+      embeddingLiteral = toVectorLiteral(embedding);
+      await client.query(
+        `
+          UPDATE messages
+          SET embedding = $2,
+              embedding_provider = $3,
+              embedding_model = $4
+          WHERE id = $1
+        `,
+        [message.id, embeddingLiteral, provider, model],
+      );
+    }
+
+    const match = await this.findVectorMatch(
+      client,
+      embeddingLiteral,
+      message.creator_id,
+      message.id,
+      message.channel_id,
+    );
+
+    if (!match || match.similarity < settings.similarityThreshold) {
+      return { messageId: message.id };
+    }
+
+    const matchedMessageId = match.id;
+    let clusterId = match.cluster_id;
+    if (!clusterId) {
+      // Matched another detached message - form a new cluster with both
+      const clusterInsert = await client.query<{ id: string }>(
+        `
+          INSERT INTO clusters (creator_id)
+          VALUES ($1)
+          RETURNING id
+        `,
+        [message.creator_id],
+      );
+      clusterId = clusterInsert.rows[0].id;
+      await this.addToCluster(client, clusterId, matchedMessageId);
+    }
+    await this.addToCluster(client, clusterId, message.id);
+
+    return {
+      messageId: message.id,
+      clusterId,
+      matchedMessageId,
+      similarity: Number(match.similarity),
+    };
+  }
+
+  /**
+   * Find the best vector match for a message using the configured
+   * CLUSTER_MATCH_STRATEGY (default: centroid). Returns the matched message
+   * (for centroid matches, the cluster member closest to the embedding) and
+   * its cluster, or a null cluster when the match is a detached message.
+   * Only embeddings of the active model are compared.
+   */
+  private async findVectorMatch(
+    client: PoolClient,
+    embeddingLiteral: string,
+    creatorId: string,
+    messageId: string,
+    channelId: string,
+  ): Promise<MatchRow | null> {
+    const strategy = this.clusterMatchStrategy;
+
+    if (strategy === "nearest_message") {
+      const match = await client.query<MatchRow>(
+        `
+          SELECT
+            m.id,
+            cm.cluster_id,
+            (1 - (m.embedding <=> $1)) AS similarity
+          FROM messages m
+          LEFT JOIN cluster_messages cm
+            ON cm.message_id = m.id
+          LEFT JOIN clusters c
+            ON c.id = cm.cluster_id
+          WHERE ${CANDIDATE_FILTER}
+            AND m.embedding IS NOT NULL
+            AND m.embedding_model = $5
+          ORDER BY m.embedding <=> $1
+          LIMIT 1
+        `,
+        [
+          embeddingLiteral,
+          creatorId,
+          messageId,
+          channelId,
+          this.embeddings.modelName,
+        ],
+      );
+      return match.rows[0] || null;
+    }
+
+    const match = await client.query<MatchRow>(
+      `
+        SELECT id, cluster_id, similarity
+        FROM (
+          SELECT
+            nearest.id,
+            c.id AS cluster_id,
+            (1 - (c.centroid <=> $1)) AS similarity
+          FROM clusters c
+          CROSS JOIN LATERAL (
+            SELECT m.id
+            FROM cluster_messages cm
+            JOIN messages m
+              ON m.id = cm.message_id
+            WHERE cm.cluster_id = c.id
+              AND m.embedding IS NOT NULL
+              AND m.embedding_model = $5
+              AND m.is_paid_dm = false
+            ORDER BY m.embedding <=> $1
+            LIMIT 1
+          ) nearest
+          WHERE c.creator_id = $2
+            AND c.status = 'open'
+            AND c.centroid IS NOT NULL
+            AND c.centroid_model = $5
+            AND NOT EXISTS (
+              SELECT 1 FROM cluster_messages cm3
+              JOIN messages m3 ON m3.id = cm3.message_id
+              WHERE cm3.cluster_id = c.id
+                AND m3.channel_id = $4
+            )
+
+          UNION ALL
+
+          SELECT
+            m.id,
+            NULL::uuid AS cluster_id,
+            (1 - (m.embedding <=> $1)) AS similarity
+          FROM messages m
+          LEFT JOIN cluster_messages cm
+            ON cm.message_id = m.id
+          WHERE cm.message_id IS NULL
+            AND m.creator_id = $2
+            AND m.replied_at IS NULL
+            AND m.is_paid_dm = false
+            AND m.needs_reply
+            AND m.id <> $3
+            AND m.channel_id <> $4
+            AND m.embedding IS NOT NULL
+            AND m.embedding_model = $5
+        ) candidates
+        ORDER BY similarity DESC
+        LIMIT 1
+      `,
+      [
+        embeddingLiteral,
+        creatorId,
+        messageId,
+        channelId,
+        this.embeddings.modelName,
+      ],
+    );
+    return match.rows[0] || null;
+  }
+
+  /**
+   * Step 1 of ingestWithClient: the clustered message most similar to `text`
+   * by trigram, above `threshold`. `cluster_has_embeddings` tells whether
+   * joining its cluster can skip the embedding.
+   */
+  private async findTrigramMatch(
+    client: PoolClient,
+    text: string,
+    creatorId: string,
+    externalMessageId: string,
+    threshold: number,
+  ): Promise<TrigramMatchRow | null> {
+    const match = await client.query<TrigramMatchRow>(
+      `
+        SELECT
+          m.id,
+          m.channel_id,
+          cm.cluster_id,
+          similarity(${MATCH_TEXT}, $1) AS trgm_similarity,
+          EXISTS (
+            SELECT 1 FROM cluster_messages cm2
+            JOIN messages m2 ON m2.id = cm2.message_id
+            WHERE cm2.cluster_id = cm.cluster_id
+              AND m2.embedding IS NOT NULL
+              AND m2.embedding_model = $5
+              AND m2.id <> m.id
+          ) AS cluster_has_embeddings
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        LEFT JOIN clusters c
+          ON c.id = cm.cluster_id
+        WHERE m.creator_id = $2
+          AND m.replied_at IS NULL
+          AND m.is_paid_dm = false
+          AND m.needs_reply
+          AND m.external_message_id <> $4
+          AND m.clustering_status = 'clustered'
+          AND similarity(${MATCH_TEXT}, $1) > $3
+          AND (c.status IS NULL OR c.status = 'open')
+        ORDER BY similarity(${MATCH_TEXT}, $1) DESC
+        LIMIT 1
+      `,
+      [
+        text,
+        creatorId,
+        threshold,
+        externalMessageId,
+        this.embeddings.modelName,
+      ],
+    );
+    return match.rows[0] || null;
+  }
+
+  // Text the trigram match compares and the embedding provider and reply
+  // need classifier see, for messages stored without a normalized_text
+  matchText(text: string): string {
+    return this.normalizer.normalize(this.redaction.redact(text).text);
+  }
+
+  /**
+   * Redact personal data from an incoming message and normalize it for
+   * matching. The stored text and payload keep the personal data only when
+   * the creator's retainRawText setting allows it.
+   */
+  private prepareMessage(
+    input: IngestMessageInput,
+    retainRawText: boolean,
+  ): PreparedMessage {
+    const redaction = this.redaction.redact(input.text);
+    return {
+      text: retainRawText ? input.text : redaction.text,
+      normalizedText: this.normalizer.normalize(redaction.text),
+      rawPayload:
+        input.rawPayload && !retainRawText
+          ? this.redaction.redactPayload(input.rawPayload)
+          : input.rawPayload,
+      redactions: redaction.counts,
+    };
+  }
+
+  // A classifier failure must not hide a question, so the message is then
+  // treated as needing a reply
+  private async classifyReplyNeed(text: string): Promise<ReplyNeed> {
+    try {
+      const verdict = await this.classifier.classify(text);
+      return { ...verdict, classifier: this.classifier.name };
+    } catch (error) {
+      this.logger.warn(
+        `Reply need classification failed: ${(error as Error).message}`,
+      );
+      return { needsReply: true, classifier: this.classifier.name };
+    }
+  }
+
+  private async embedWithProvider(text: string): Promise<ProvidedEmbedding> {
+    return {
+      embedding: await this.embeddings.embed(text),
+      provider: this.embeddings.providerName,
+      model: this.embeddings.modelName,
+    };
+  }
+
+  private async addToCluster(
+    client: PoolClient,
+    clusterId: string,
+    messageId: string,
+  ): Promise<void> {
+    await client.query(
+      `
+        INSERT INTO cluster_messages (cluster_id, message_id)
+        VALUES ($1, $2)
+      `,
+      [clusterId, messageId],
+    );
+    await client.query(
+      `
+        UPDATE clusters
+        SET updated_at = now()
+        WHERE id = $1
+      `,
+      [clusterId],
+    );
+    await refreshClusterCentroids(
+      client,
+      [clusterId],
+      this.embeddings.modelName,
+    );
+  }
+
+  /**
+   * Run the ingest pipeline on an open transaction.
+   * The caller owns BEGIN/COMMIT/ROLLBACK.
+   *
+   * Ingest is idempotent per (creator_id, external_message_id): a redelivery
+   * with the same text returns the stored result without re-embedding, and a
+   * redelivery with different text is treated as an edit that re-clusters the
+   * existing row.
+   *
+   * `embed` and `classify` are prepared before the transaction opens
+   * (prepareUpFront), so no lock is held across a provider call. Only a text
+   * they do not cover, because the stored messages changed in between, is
+   * embedded or classified on demand. ReplayService embeds on demand; its
+   * transaction only locks scratch copies of the tables.
+   *
+   * `overrides` replaces the creator's stored thresholds (previewIngest and
+   * ReplayService).
+   *
+   * `queuedOutcome` places a message an async ingest already stored
+   * (processIngestQueue): the stored row is not a redelivery, and the result
+   * keeps the outcome reported when it was queued.
+   */
+  async ingestWithClient(
+    client: PoolClient,
+    input: IngestMessageInput,
+    embed: (text: string) => Promise<ProvidedEmbedding>,
+    classify: (text: string) => Promise<ReplyNeed>,
+    overrides?: PreviewSettingsInput,
+    queuedOutcome?: IngestOutcome,
+  ): Promise<IngestResult> {
+    const isPaidDm = input.isPaidDm === true;
+    const createdAt = input.createdAt || new Date();
+
+    let embeddingLiteral: string | null = null;
+    let embeddingProvider: string | null = null;
+    let embeddingModel: string | null = null;
+    let matchedMessageId: string | undefined;
+    let matchedChannelId: string | undefined;
+    let similarity: number | undefined;
+    let clusterId: string | undefined;
+    let skippedEmbedding = false;
+    let embeddingPending = false;
+    let matchReason = isPaidDm ? MatchReason.PaidDm : MatchReason.NewCluster;
+
+    const stored = await this.settings.getSettings(input.creatorId, client);
+    const settings = {
+      similarityThreshold:
+        overrides?.similarityThreshold ?? stored.similarityThreshold,
+      trigramThreshold: overrides?.trigramThreshold ?? stored.trigramThreshold,
+    };
+    // Matched and embedded as normalizedText, with personal data redacted
+    const message = this.prepareMessage(input, stored.retainRawText);
+    const normalizedText = message.normalizedText;
+
+    // Step 0: Look up an earlier delivery of the same message
+    const existing = await client.query<ExistingMessageRow>(
+      `
+        SELECT id, text, ingest_result, redaction_counts
+        FROM messages
+        WHERE creator_id = $1
+          AND external_message_id = $2
+        FOR UPDATE
+      `,
+      [input.creatorId, input.messageId],
+    );
+    const existingMessage = existing.rows[0];
+
+    if (existingMessage) {
+      if (
+        !queuedOutcome &&
+        existingMessage.text === message.text &&
+        existingMessage.ingest_result
+      ) {
+        return this.duplicateResult(existingMessage.ingest_result);
+      }
+
+      // Edited text: take the message out of its cluster so it is matched again
+      await this.detachMessage(client, existingMessage.id);
+    }
+
+    // A queued message may be stored redacted already; its counts were taken
+    // when it was queued
+    const redactions =
+      queuedOutcome && existingMessage
+        ? (existingMessage.redaction_counts ?? [])
+        : message.redactions;
+
+    // Step 0.5: Messages that need no reply (greetings, thanks, reactions) are
+    // stored but never embedded or clustered; paid DMs are always answered
+    const replyNeed = await classify(normalizedText);
+    const gated = !isPaidDm && !replyNeed.needsReply;
+    skippedEmbedding = gated;
+
+    // Step 1: Check for near-exact trigram match (before calling embedding API)
+    if (!isPaidDm && !gated) {
+      const match = await this.findTrigramMatch(
+        client,
+        normalizedText,
+        input.creatorId,
+        input.messageId,
+        settings.trigramThreshold,
+      );
+
+      if (match) {
+        matchedMessageId = match.id;
+        matchedChannelId = match.channel_id;
+        similarity = Number(match.trgm_similarity);
+
+        if (match.cluster_id) {
+          // Join existing cluster
+          clusterId = match.cluster_id;
+          matchReason = MatchReason.Trigram;
+          // Skip embedding only if cluster has other messages with embeddings
+          if (match.cluster_has_embeddings) {
+            skippedEmbedding = true;
           }
         }
+        // If no cluster_id, we still need to create cluster and embed
+        // (the matched message will need an embedding too)
+      }
+    }
+
+    // Step 2: Get embedding if not skipped
+    if (!skippedEmbedding) {
+      try {
+        const { embedding, provider, model } = await embed(normalizedText);
+        embeddingLiteral = toVectorLiteral(embedding);
+        embeddingProvider = provider;
+        embeddingModel = model;
+      } catch (error) {
+        if (!(error instanceof EmbeddingUnavailableError)) {
+          throw error;
+        }
+        // Degraded mode: store the message without an embedding and place it
+        // by trigram only; processPendingEmbeddings embeds and re-clusters it
+        embeddingPending = true;
+      }
+    }
+
+    // Step 3: Insert the message (or apply the edit to the stored row)
+    let messageId: string;
+    if (existingMessage) {
+      await client.query(
+        `
+          UPDATE messages
+          SET text = $2,
+              normalized_text = $3,
+              embedding = $4,
+              embedding_provider = $5,
+              embedding_model = $6,
+              embedding_pending_since = NULL,
+              clustering_status = 'clustered',
+              raw_payload = COALESCE($7, raw_payload),
+              redaction_counts = $8,
+              needs_reply = $9
+          WHERE id = $1
+        `,
+        [
+          existingMessage.id,
+          message.text,
+          normalizedText,
+          embeddingLiteral,
+          embeddingProvider,
+          embeddingModel,
+          message.rawPayload ? JSON.stringify(message.rawPayload) : null,
+          redactions.length > 0 ? JSON.stringify(redactions) : null,
+          replyNeed.needsReply,
+        ],
+      );
+      messageId = existingMessage.id;
+    } else {
+      const insert = await client.query<{ id: string }>(
+        `
+          INSERT INTO messages (
+            external_message_id,
+            creator_id,
+            channel_id,
+            channel_cid,
+            visitor_user_id,
+            visitor_username,
+            text,
+            normalized_text,
+            embedding,
+            embedding_provider,
+            embedding_model,
+            created_at,
+            is_paid_dm,
+            raw_payload,
+            redaction_counts,
+            needs_reply
+          )
+          VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
+          ON CONFLICT (creator_id, external_message_id) DO NOTHING
+          RETURNING id
+        `,
+        [
+          input.messageId,
+          input.creatorId,
+          input.channelId,
+          input.channelCid || null,
+          input.visitorUserId || null,
+          input.visitorUsername || null,
+          message.text,
+          normalizedText,
+          embeddingLiteral,
+          embeddingProvider,
+          embeddingModel,
+          createdAt,
+          isPaidDm,
+          message.rawPayload ? JSON.stringify(message.rawPayload) : null,
+          redactions.length > 0 ? JSON.stringify(redactions) : null,
+          replyNeed.needsReply,
+        ],
+      );
 
-        // Step 5: Create new cluster if still no cluster assigned
-        if (!clusterId) {
+      if (!insert.rowCount) {
+        // A concurrent delivery of the same message committed first
+        const winner = await client.query<ExistingMessageRow>(
+          `
+            SELECT id, text, ingest_result
+            FROM messages
+            WHERE creator_id = $1
+              AND external_message_id = $2
+          `,
+          [input.creatorId, input.messageId],
+        );
+        return this.duplicateResult(winner.rows[0].ingest_result!);
+      }
+      messageId = insert.rows[0].id;
+    }
+
+    if (embeddingPending) {
+      // Queue the message for processPendingEmbeddings
+      await client.query(
+        `
+          UPDATE messages
+          SET embedding_pending_since = now()
+          WHERE id = $1
+        `,
+        [messageId],
+      );
+    }
+
+    if (gated) {
+      // Kept for the record only: it joins no cluster and does not supersede
+      // the channel's earlier message
+      return this.rememberResult(client, {
+        messageId,
+        outcome:
+          queuedOutcome ??
+          (existingMessage ? IngestOutcome.Updated : IngestOutcome.Created),
+        embeddingSkipped: true,
+        embeddingPending: false,
+        clusteringStatus: ClusteringStatus.Clustered,
+        supersededMessageIds: [],
+        redactions,
+        replyNeed,
+      });
+    }
+
+    // Step 3.5: Remove old messages from same channel from clusters (one msg per channel rule).
+    // Only older ones: a redelivered edit of an earlier message must not
+    // evict the channel's newer message
+    const superseded = await client.query<{
+      cluster_id: string;
+      message_id: string;
+    }>(
+      `
+        DELETE FROM cluster_messages cm
+        USING messages m, messages current
+        WHERE cm.message_id = m.id
+          AND current.id = $3
+          AND m.channel_id = $1
+          AND m.creator_id = $2
+          AND m.id <> $3
+          AND m.created_at <= current.created_at
+        RETURNING cm.cluster_id, cm.message_id
+      `,
+      [input.channelId, input.creatorId, messageId],
+    );
+
+    // Step 4: If we didn't find a cluster via trigram, try vector similarity
+    if (!clusterId && !isPaidDm && embeddingLiteral) {
+      const match = await this.findVectorMatch(
+        client,
+        embeddingLiteral,
+        input.creatorId,
+        messageId,
+        input.channelId,
+      );
+
+      if (match && match.similarity >= settings.similarityThreshold) {
+        matchedMessageId = match.id;
+        similarity = Number(match.similarity);
+        matchReason = MatchReason.Vector;
+        if (match.cluster_id) {
+          clusterId = match.cluster_id;
+        } else {
+          // Matched message not in cluster - create one and add both
           const clusterInsert = await client.query<{ id: string }>(
             `
               INSERT INTO clusters (creator_id)
@@ -219,28 +1601,387 @@ export class MessagesService {
             [input.creatorId],
           );
           clusterId = clusterInsert.rows[0].id;
+          await client.query(
+            `
+              INSERT INTO cluster_messages (cluster_id, message_id)
+              VALUES ($1, $2)
+              ON CONFLICT (message_id) DO UPDATE SET
+                cluster_id = EXCLUDED.cluster_id
+            `,
+            [clusterId, matchedMessageId],
+          );
         }
+      }
+    }
 
-        // Step 6: Add message to cluster
-        await client.query(
+    // Step 4b: Without an embedding, a trigram match with a detached message
+    // from another channel is the only signal left - form a new cluster with both
+    if (
+      !clusterId &&
+      embeddingPending &&
+      matchedMessageId &&
+      matchedChannelId !== input.channelId
+    ) {
+      matchReason = MatchReason.Trigram;
+      const clusterInsert = await client.query<{ id: string }>(
+        `
+          INSERT INTO clusters (creator_id)
+          VALUES ($1)
+          RETURNING id
+        `,
+        [input.creatorId],
+      );
+      clusterId = clusterInsert.rows[0].id;
+      await client.query(
+        `
+          INSERT INTO cluster_messages (cluster_id, message_id)
+          VALUES ($1, $2)
+          ON CONFLICT (message_id) DO UPDATE SET
+            cluster_id = EXCLUDED.cluster_id
+        `,
+        [clusterId, matchedMessageId],
+      );
+    }
+
+    // Step 5: Create new cluster if still no cluster assigned
+    if (!clusterId) {
+      const clusterInsert = await client.query<{ id: string }>(
+        `
+          INSERT INTO clusters (creator_id)
+          VALUES ($1)
+          RETURNING id
+        `,
+        [input.creatorId],
+      );
+      clusterId = clusterInsert.rows[0].id;
+    }
+
+    // Step 6: Add message to cluster
+    await client.query(
+      `
+        INSERT INTO cluster_messages (cluster_id, message_id)
+        VALUES ($1, $2)
+      `,
+      [clusterId, messageId],
+    );
+    await refreshClusterCentroids(
+      client,
+      [clusterId!, ...superseded.rows.map((row) => row.cluster_id)],
+      this.embeddings.modelName,
+    );
+
+    const result: IngestResult = {
+      messageId,
+      clusterId: clusterId!, // Always assigned by Step 5
+      matchedMessageId,
+      similarity,
+      outcome:
+        queuedOutcome ??
+        (existingMessage ? IngestOutcome.Updated : IngestOutcome.Created),
+      matchReason,
+      embeddingSkipped: skippedEmbedding,
+      embeddingPending,
+      clusteringStatus: ClusteringStatus.Clustered,
+      supersededMessageIds: superseded.rows.map((row) => row.message_id),
+      redactions,
+      replyNeed,
+    };
+
+    if (input.explainCandidates) {
+      result.candidates = await this.findCandidates(
+        client,
+        input,
+        normalizedText,
+        messageId,
+        embeddingLiteral,
+        input.explainCandidates,
+      );
+    }
+
+    // Step 7: Remember the result so redeliveries can replay it
+    return this.rememberResult(client, result);
+  }
+
+  /**
+   * Store a message for the ingest worker without embedding or clustering it
+   * (INGEST_MODE=async). Redeliveries follow the same rules as
+   * ingestWithClient; an edit takes the message out of its cluster and
+   * queues it again.
+   */
+  private async enqueueWithClient(
+    client: PoolClient,
+    input: IngestMessageInput,
+  ): Promise<IngestResult> {
+    const { retainRawText } = await this.settings.getSettings(
+      input.creatorId,
+      client,
+    );
+    const message = this.prepareMessage(input, retainRawText);
+
+    const existing = await client.query<ExistingMessageRow>(
+      `
+        SELECT id, text, ingest_result, redaction_counts
+        FROM messages
+        WHERE creator_id = $1
+          AND external_message_id = $2
+        FOR UPDATE
+      `,
+      [input.creatorId, input.messageId],
+    );
+    const existingMessage = existing.rows[0];
+
+    let messageId: string;
+    if (existingMessage) {
+      if (
+        existingMessage.text === message.text &&
+        existingMessage.ingest_result
+      ) {
+        return this.duplicateResult(existingMessage.ingest_result);
+      }
+
+      await this.detachMessage(client, existingMessage.id);
+      await client.query(
+        `
+          UPDATE messages
+          SET text = $2,
+              normalized_text = $3,
+              embedding = NULL,
+              embedding_provider = NULL,
+              embedding_model = NULL,
+              embedding_pending_since = NULL,
+              clustering_status = 'pending',
+              raw_payload = COALESCE($4, raw_payload),
+              redaction_counts = $5
+          WHERE id = $1
+        `,
+        [
+          existingMessage.id,
+          message.text,
+          message.normalizedText,
+          message.rawPayload ? JSON.stringify(message.rawPayload) : null,
+          message.redactions.length > 0
+            ? JSON.stringify(message.redactions)
+            : null,
+        ],
+      );
+      messageId = existingMessage.id;
+    } else {
+      const insert = await client.query<{ id: string }>(
+        `
+          INSERT INTO messages (
+            external_message_id,
+            creator_id,
+            channel_id,
+            channel_cid,
+            visitor_user_id,
+            visitor_username,
+            text,
+            normalized_text,
+            created_at,
+            is_paid_dm,
+            raw_payload,
+            redaction_counts,
+            clustering_status
+          )
+          VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,'pending')
+          ON CONFLICT (creator_id, external_message_id) DO NOTHING
+          RETURNING id
+        `,
+        [
+          input.messageId,
+          input.creatorId,
+          input.channelId,
+          input.channelCid || null,
+          input.visitorUserId || null,
+          input.visitorUsername || null,
+          message.text,
+          message.normalizedText,
+          input.createdAt || new Date(),
+          input.isPaidDm === true,
+          message.rawPayload ? JSON.stringify(message.rawPayload) : null,
+          message.redactions.length > 0
+            ? JSON.stringify(message.redactions)
+            : null,
+        ],
+      );
+
+      if (!insert.rowCount) {
+        // A concurrent delivery of the same message committed first
+        const winner = await client.query<ExistingMessageRow>(
           `
-            INSERT INTO cluster_messages (cluster_id, message_id)
-            VALUES ($1, $2)
+            SELECT id, text, ingest_result
+            FROM messages
+            WHERE creator_id = $1
+              AND external_message_id = $2
           `,
-          [clusterId, messageId],
+          [input.creatorId, input.messageId],
         );
-
-        await client.query("COMMIT");
-        return {
-          messageId,
-          clusterId: clusterId!, // Always assigned by Step 5
-          matchedMessageId,
-          similarity,
-        };
-      } catch (error) {
-        await client.query("ROLLBACK");
-        throw error;
+        return this.duplicateResult(winner.rows[0].ingest_result!);
       }
-    });
+      messageId = insert.rows[0].id;
+    }
+
+    const result: IngestResult = {
+      messageId,
+      outcome: existingMessage ? IngestOutcome.Updated : IngestOutcome.Created,
+      embeddingSkipped: false,
+      embeddingPending: false,
+      clusteringStatus: ClusteringStatus.Pending,
+      supersededMessageIds: [],
+      redactions: message.redactions,
+    };
+
+    // Replayed on redelivery until the worker stores the final result
+    return this.rememberResult(client, result);
+  }
+
+  // Store the result on the message so redeliveries can replay it
+  private async rememberResult(
+    client: PoolClient,
+    result: IngestResult,
+  ): Promise<IngestResult> {
+    await client.query(
+      `
+        UPDATE messages
+        SET ingest_result = $2
+        WHERE id = $1
+      `,
+      [result.messageId, JSON.stringify(result)],
+    );
+
+    return result;
+  }
+
+  // Stored result replayed for a redelivery
+  private duplicateResult(stored: IngestResult): IngestResult {
+    return {
+      ...stored,
+      // Missing from results stored before these fields existed
+      embeddingPending: stored.embeddingPending ?? false,
+      clusteringStatus: stored.clusteringStatus ?? ClusteringStatus.Clustered,
+      redactions: stored.redactions ?? [],
+      outcome: IngestOutcome.Duplicate,
+    };
+  }
+
+  /**
+   * Top-scoring pending messages of the creator, for explaining a placement.
+   * Ranked by the better of trigram and cosine similarity; scores reflect the
+   * state after the message was placed. Cosine scores are left out for
+   * embeddings of another model.
+   */
+  private async findCandidates(
+    client: PoolClient,
+    input: IngestMessageInput,
+    normalizedText: string,
+    messageId: string,
+    embeddingLiteral: string | null,
+    limit: number,
+  ): Promise<MatchCandidate[]> {
+    const candidates = await client.query<CandidateRow>(
+      `
+        SELECT
+          m.id,
+          cm.cluster_id,
+          similarity(${MATCH_TEXT}, $1) AS trigram_similarity,
+          CASE WHEN m.embedding_model = $6
+            THEN 1 - (m.embedding <=> $2::vector)
+          END AS cosine_similarity,
+          CASE WHEN c.centroid_model = $6
+            THEN 1 - (c.centroid <=> $2::vector)
+          END AS centroid_similarity
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        LEFT JOIN clusters c
+          ON c.id = cm.cluster_id
+        WHERE m.creator_id = $3
+          AND m.replied_at IS NULL
+          AND m.is_paid_dm = false
+          AND m.needs_reply
+          AND m.id <> $4
+          AND (c.status IS NULL OR c.status = 'open')
+        ORDER BY GREATEST(
+          similarity(${MATCH_TEXT}, $1),
+          CASE WHEN m.embedding_model = $6
+            THEN 1 - (m.embedding <=> $2::vector)
+            ELSE 0
+          END
+        ) DESC
+        LIMIT $5
+      `,
+      [
+        normalizedText,
+        embeddingLiteral,
+        input.creatorId,
+        messageId,
+        limit,
+        this.embeddings.modelName,
+      ],
+    );
+
+    return candidates.rows.map((row) => ({
+      messageId: row.id,
+      clusterId: row.cluster_id ?? undefined,
+      trigramSimilarity: Number(row.trigram_similarity),
+      cosineSimilarity:
+        row.cosine_similarity === null
+          ? undefined
+          : Number(row.cosine_similarity),
+      centroidSimilarity:
+        row.centroid_similarity === null
+          ? undefined
+          : Number(row.centroid_similarity),
+    }));
+  }
+
+  /**
+   * Remove a message from its cluster, deleting the cluster if it ends up
+   * empty (same rule as ClustersService.removeClusterMessage).
+   */
+  private async detachMessage(
+    client: PoolClient,
+    messageId: string,
+  ): Promise<void> {
+    const detached = await client.query<{ cluster_id: string }>(
+      `
+        DELETE FROM cluster_messages
+        WHERE message_id = $1
+        RETURNING cluster_id
+      `,
+      [messageId],
+    );
+
+    if (!detached.rowCount) {
+      return;
+    }
+
+    const clusterId = detached.rows[0].cluster_id;
+    const emptyCheck = await client.query<{ has_messages: boolean }>(
+      `
+        SELECT EXISTS (
+          SELECT 1 FROM cluster_messages WHERE cluster_id = $1
+        ) AS has_messages
+      `,
+      [clusterId],
+    );
+
+    if (!emptyCheck.rows[0].has_messages) {
+      await client.query(`DELETE FROM clusters WHERE id = $1`, [clusterId]);
+    } else {
+      await client.query(
+        `
+          UPDATE clusters
+          SET updated_at = now()
+          WHERE id = $1
+        `,
+        [clusterId],
+      );
+      await refreshClusterCentroids(
+        client,
+        [clusterId],
+        this.embeddings.modelName,
+      );
+    }
   }
 }
@@ -0,0 +1,43 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IntervalPoller } from "../../workers/interval-poller";
+import { MessagesService } from "./messages.service";
+
+/**
+ * Embeds and re-clusters messages that were ingested while the embedding
+ * provider was unavailable, one batch per tick.
+ * Set PENDING_EMBEDDINGS_POLL_MS=0 to disable (e.g. when a separate worker
+ * process owns it).
+ */
+@Injectable()
+export class PendingEmbeddingsWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PendingEmbeddingsWorker.name);
+  private readonly poller: IntervalPoller;
+
+  constructor(config: ConfigService, messages: MessagesService) {
+    this.poller = new IntervalPoller(config, this.logger, {
+      setting: "PENDING_EMBEDDINGS_POLL_MS",
+      defaultMs: 5000,
+      name: "pending embeddings worker",
+      run: async () => {
+        const processed = await messages.processPendingEmbeddings();
+        if (processed > 0) {
+          this.logger.log(`Embedded ${processed} pending messages`);
+        }
+      },
+    });
+  }
+
+  onModuleInit() {
+    this.poller.start();
+  }
+
+  onModuleDestroy() {
+    this.poller.stop();
+  }
+}
@@ -0,0 +1,20 @@
+import { Field, Float, InputType } from "@nestjs/graphql";
+import { IsNumber, IsOptional, Max, Min } from "class-validator";
+
+// Thresholds to try in previewIngest instead of the creator's settings
+@InputType()
+export class PreviewSettingsInput {
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  similarityThreshold?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  trigramThreshold?: number;
+}
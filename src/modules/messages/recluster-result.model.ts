@@ -0,0 +1,17 @@
+import { Field, Float, ID, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class ReclusterResult {
+  @Field(() => ID)
+  messageId!: string;
+
+  // Null when no similar message was found and the message stays detached
+  @Field(() => ID, { nullable: true })
+  clusterId?: string;
+
+  @Field(() => ID, { nullable: true })
+  matchedMessageId?: string;
+
+  @Field(() => Float, { nullable: true })
+  similarity?: number;
+}
@@ -0,0 +1,18 @@
+import { Field, ID, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class ReplayMessageChange {
+  @Field(() => ID)
+  messageId!: string;
+
+  @Field()
+  text!: string;
+
+  // Messages sharing this message's cluster today
+  @Field(() => [ID])
+  liveClusterMateIds!: string[];
+
+  // Messages it would share a cluster with under the replayed thresholds
+  @Field(() => [ID])
+  replayClusterMateIds!: string[];
+}
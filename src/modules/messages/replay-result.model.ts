@@ -0,0 +1,43 @@
+import { Field, Float, ID, Int, ObjectType } from "@nestjs/graphql";
+import { ClusterSizeCount } from "./cluster-size-count.model";
+import { ReplayMessageChange } from "./replay-message-change.model";
+
+@ObjectType()
+export class ReplayResult {
+  @Field(() => ID)
+  creatorId!: string;
+
+  // Thresholds the replay ran with
+  @Field(() => Float)
+  similarityThreshold!: number;
+
+  @Field(() => Float)
+  trigramThreshold!: number;
+
+  @Field(() => Int)
+  messageCount!: number;
+
+  @Field(() => Int)
+  clusterCount!: number;
+
+  @Field(() => Int)
+  liveClusterCount!: number;
+
+  @Field(() => [ClusterSizeCount])
+  sizeDistribution!: ClusterSizeCount[];
+
+  @Field(() => [ClusterSizeCount])
+  liveSizeDistribution!: ClusterSizeCount[];
+
+  // Message pairs clustered together by the replay but not live
+  @Field(() => Int)
+  joinedPairs!: number;
+
+  // Message pairs clustered together live but not by the replay
+  @Field(() => Int)
+  splitPairs!: number;
+
+  // Messages whose cluster-mates differ between live and replay
+  @Field(() => [ReplayMessageChange])
+  changedMessages!: ReplayMessageChange[];
+}
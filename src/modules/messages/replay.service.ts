@@ -0,0 +1,241 @@
+import { Injectable } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { DbService } from "../../db/db.service";
+import { CreatorSettingsService } from "../creator-settings/creator-settings.service";
+import { EmbeddingsService } from "../embeddings/embeddings.service";
+import { ClusterSizeCount } from "./cluster-size-count.model";
+import { MessagesService } from "./messages.service";
+import { PreviewSettingsInput } from "./preview-settings.input";
+import { ReplayMessageChange } from "./replay-message-change.model";
+import { ReplayResult } from "./replay-result.model";
+
+// Tables the ingest pipeline writes to; replayed into a scratch copy
+const REPLAY_TABLES = ["messages", "clusters", "cluster_messages"];
+
+type LiveMessageRow = {
+  id: string;
+  external_message_id: string;
+  channel_id: string;
+  channel_cid: string | null;
+  visitor_user_id: string | null;
+  visitor_username: string | null;
+  text: string;
+  embedding: string | null;
+  embedding_provider: string | null;
+  embedding_model: string | null;
+  created_at: Date;
+  is_paid_dm: boolean;
+  raw_payload: Record<string, unknown> | null;
+  cluster_id: string | null;
+};
+
+@Injectable()
+export class ReplayService {
+  constructor(
+    private db: DbService,
+    private messages: MessagesService,
+    private embeddings: EmbeddingsService,
+    private settings: CreatorSettingsService,
+  ) {}
+
+  /**
+   * Replay a creator's pending messages, oldest first, through the ingest
+   * pipeline with candidate thresholds and compare the outcome with the live
+   * cluster assignments.
+   *
+   * The replay writes to copies of the clustering tables in a scratch schema
+   * created inside a transaction that is always rolled back, so live data is
+   * never touched. Stored embeddings of the active model are reused; only
+   * messages whose embedding was skipped at ingest or came from another
+   * model are embedded again.
+   */
+  async replayCreatorMessages(
+    creatorId: string,
+    overrides: PreviewSettingsInput = {},
+  ): Promise<ReplayResult> {
+    const stored = await this.settings.getSettings(creatorId);
+    const thresholds = {
+      similarityThreshold:
+        overrides.similarityThreshold ?? stored.similarityThreshold,
+      trigramThreshold: overrides.trigramThreshold ?? stored.trigramThreshold,
+    };
+
+    const live = await this.db.query<LiveMessageRow>(
+      `
+        SELECT
+          m.id,
+          m.external_message_id,
+          m.channel_id,
+          m.channel_cid,
+          m.visitor_user_id,
+          m.visitor_username,
+          m.text,
+          m.embedding::text AS embedding,
+          m.embedding_provider,
+          m.embedding_model,
+          m.created_at,
+          m.is_paid_dm,
+          m.raw_payload,
+          cm.cluster_id
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        WHERE m.creator_id = $1
+          AND m.replied_at IS NULL
+        ORDER BY m.created_at ASC, m.id ASC
+      `,
+      [creatorId],
+    );
+
+    const classify = await this.messages.classifyUpFront(
+      live.rows.map((row) => this.messages.matchText(row.text)),
+    );
+
+    const schema = `replay_${randomUUID().replace(/-/g, "")}`;
+    const replayClusters = await this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        await client.query(`CREATE SCHEMA ${schema}`);
+        for (const table of REPLAY_TABLES) {
+          await client.query(
+            `CREATE TABLE ${schema}.${table} (LIKE public.${table} INCLUDING ALL)`,
+          );
+        }
+        // Unqualified table names in the pipeline now resolve to the copies
+        await client.query(`SET LOCAL search_path = ${schema}, public`);
+
+        const liveIds = new Map<string, string>();
+        for (const row of live.rows) {
+          const result = await this.messages.ingestWithClient(
+            client,
+            {
+              creatorId,
+              messageId: row.external_message_id,
+              text: row.text,
+              channelId: row.channel_id,
+              channelCid: row.channel_cid ?? undefined,
+              visitorUserId: row.visitor_user_id ?? undefined,
+              visitorUsername: row.visitor_username ?? undefined,
+              createdAt: row.created_at,
+              isPaidDm: row.is_paid_dm,
+              rawPayload: row.raw_payload ?? undefined,
+            },
+            async (text) =>
+              row.embedding && row.embedding_model === this.embeddings.modelName
+                ? {
+                    embedding: JSON.parse(row.embedding) as number[],
+                    provider: row.embedding_provider,
+                    model: row.embedding_model,
+                  }
+                : {
+                    embedding: await this.embeddings.embed(text),
+                    provider: this.embeddings.providerName,
+                    model: this.embeddings.modelName,
+                  },
+            classify,
+            thresholds,
+          );
+          liveIds.set(result.messageId, row.id);
+        }
+
+        const assignments = await client.query<{
+          message_id: string;
+          cluster_id: string;
+        }>(`SELECT message_id, cluster_id FROM cluster_messages`);
+
+        return assignments.rows.map((row) => ({
+          messageId: liveIds.get(row.message_id)!,
+          clusterId: row.cluster_id,
+        }));
+      } finally {
+        await client.query("ROLLBACK");
+      }
+    });
+
+    const liveMates = this.clusterMates(
+      live.rows
+        .filter((row) => row.cluster_id)
+        .map((row) => ({ messageId: row.id, clusterId: row.cluster_id! })),
+    );
+    const replayMates = this.clusterMates(replayClusters);
+
+    let joinedPairs = 0;
+    let splitPairs = 0;
+    const changedMessages: ReplayMessageChange[] = [];
+    for (const row of live.rows) {
+      const before = liveMates.get(row.id) ?? [];
+      const after = replayMates.get(row.id) ?? [];
+      const joined = after.filter((id) => !before.includes(id));
+      const split = before.filter((id) => !after.includes(id));
+      joinedPairs += joined.length;
+      splitPairs += split.length;
+      if (joined.length > 0 || split.length > 0) {
+        changedMessages.push({
+          messageId: row.id,
+          text: row.text,
+          liveClusterMateIds: before,
+          replayClusterMateIds: after,
+        });
+      }
+    }
+
+    const liveSizes = this.clusterSizes(
+      live.rows.flatMap((row) => (row.cluster_id ? [row.cluster_id] : [])),
+    );
+    const replaySizes = this.clusterSizes(
+      replayClusters.map((row) => row.clusterId),
+    );
+
+    return {
+      creatorId,
+      ...thresholds,
+      messageCount: live.rows.length,
+      clusterCount: replaySizes.reduce((sum, bucket) => sum + bucket.count, 0),
+      liveClusterCount: liveSizes.reduce(
+        (sum, bucket) => sum + bucket.count,
+        0,
+      ),
+      sizeDistribution: replaySizes,
+      liveSizeDistribution: liveSizes,
+      // Every pair was counted once from each side
+      joinedPairs: joinedPairs / 2,
+      splitPairs: splitPairs / 2,
+      changedMessages,
+    };
+  }
+
+  // Other members of each message's cluster, keyed by message id
+  private clusterMates(
+    assignments: Array<{ messageId: string; clusterId: string }>,
+  ): Map<string, string[]> {
+    const members = new Map<string, string[]>();
+    for (const { messageId, clusterId } of assignments) {
+      members.set(clusterId, [...(members.get(clusterId) ?? []), messageId]);
+    }
+
+    const mates = new Map<string, string[]>();
+    for (const { messageId, clusterId } of assignments) {
+      mates.set(
+        messageId,
+        members.get(clusterId)!.filter((id) => id !== messageId),
+      );
+    }
+    return mates;
+  }
+
+  private clusterSizes(clusterIds: string[]): ClusterSizeCount[] {
+    const sizes = new Map<string, number>();
+    for (const clusterId of clusterIds) {
+      sizes.set(clusterId, (sizes.get(clusterId) ?? 0) + 1);
+    }
+
+    const counts = new Map<number, number>();
+    for (const size of sizes.values()) {
+      counts.set(size, (counts.get(size) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .map(([size, count]) => ({ size, count }))
+      .sort((a, b) => a.size - b.size);
+  }
+}
@@ -0,0 +1,125 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+// Optional steps, in the order they run; TEXT_NORMALIZATION picks a subset
+export const TEXT_NORMALIZATION_STEPS = [
+  "lookalikes",
+  "urls",
+  "mentions",
+  "emoji",
+  "punctuation",
+] as const;
+
+export type TextNormalizationStep = (typeof TEXT_NORMALIZATION_STEPS)[number];
+
+// Cyrillic and Greek letters that render like Latin ones (after lowercasing)
+const LOOKALIKES: Record<string, string> = {
+  а: "a",
+  в: "b",
+  е: "e",
+  ё: "e",
+  һ: "h",
+  і: "i",
+  ј: "j",
+  к: "k",
+  м: "m",
+  н: "h",
+  о: "o",
+  р: "p",
+  с: "c",
+  ѕ: "s",
+  т: "t",
+  у: "y",
+  х: "x",
+  ԁ: "d",
+  α: "a",
+  ε: "e",
+  ι: "i",
+  κ: "k",
+  ν: "v",
+  ο: "o",
+  ρ: "p",
+  τ: "t",
+  υ: "u",
+  χ: "x",
+};
+
+const LOOKALIKE_PATTERN = new RegExp(
+  `[${Object.keys(LOOKALIKES).join("")}]`,
+  "g",
+);
+const INVISIBLE_PATTERN = /[\u00ad\u200b-\u200f\u2060\ufeff]/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const MENTION_PATTERN = /(^|\s)@[\w.-]+/g;
+const EMOJI_PATTERN =
+  /[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f\u20e3]/gu;
+
+/**
+ * Turns message text into the form the trigram match and the embedding see,
+ * so that "Price?? 🔥🔥 @you" and "price?" compare as the same question.
+ * Always lowercases and collapses whitespace, like the embedding cache key;
+ * TEXT_NORMALIZATION=<step>,<step> (or `none`) limits the optional steps:
+ *
+ * - lookalikes: NFKC folding (fullwidth and styled letters), invisible
+ *   characters and Cyrillic/Greek look-alikes of Latin letters
+ * - urls: drop links
+ * - mentions: drop @mentions
+ * - emoji: drop emoji, skin tones and flags
+ * - punctuation: collapse repeated punctuation ("??!" -> "?", "..." -> ".")
+ *
+ * Text with nothing left after normalizing (only emoji, say) falls back to
+ * its lowercased, trimmed form so it can still match itself.
+ */
+@Injectable()
+export class TextNormalizer {
+  private readonly steps: ReadonlySet<TextNormalizationStep>;
+
+  constructor(config: ConfigService) {
+    const setting = config.get<string>("TEXT_NORMALIZATION");
+    const steps = !setting
+      ? [...TEXT_NORMALIZATION_STEPS]
+      : setting.trim() === "none"
+        ? []
+        : setting.split(",").map((step) => step.trim());
+    for (const step of steps) {
+      if (!(TEXT_NORMALIZATION_STEPS as readonly string[]).includes(step)) {
+        throw new Error(
+          `Unknown TEXT_NORMALIZATION step "${step}" (available: ${TEXT_NORMALIZATION_STEPS.join(", ")}, or none)`,
+        );
+      }
+    }
+    this.steps = new Set(steps as TextNormalizationStep[]);
+  }
+
+  normalize(text: string): string {
+    let normalized = text;
+    if (this.steps.has("lookalikes")) {
+      normalized = normalized.normalize("NFKC").replace(INVISIBLE_PATTERN, "");
+    }
+    normalized = normalized.toLowerCase();
+    if (this.steps.has("lookalikes")) {
+      normalized = normalized.replace(
+        LOOKALIKE_PATTERN,
+        (letter) => LOOKALIKES[letter],
+      );
+    }
+    if (this.steps.has("urls")) {
+      normalized = normalized.replace(URL_PATTERN, " ");
+    }
+    if (this.steps.has("mentions")) {
+      normalized = normalized.replace(MENTION_PATTERN, "$1");
+    }
+    if (this.steps.has("emoji")) {
+      normalized = normalized.replace(EMOJI_PATTERN, " ");
+    }
+    if (this.steps.has("punctuation")) {
+      normalized = normalized
+        // A run of ? and ! asks a question if it holds any ?
+        .replace(/[?!]{2,}/g, (run) => (run.includes("?") ? "?" : "!"))
+        .replace(/([^\p{L}\p{N}\s])\1+/gu, "$1");
+    }
+    normalized = normalized.replace(/\s+/g, " ").trim();
+
+    return normalized || text.toLowerCase().trim();
+  }
+}
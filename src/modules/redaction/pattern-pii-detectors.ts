@@ -0,0 +1,77 @@
+import { PiiDetector, PiiMatch } from "./pii-detector";
+
+/**
+ * Detector driven by a global regular expression; `accept` can veto a match
+ * the pattern alone cannot rule out.
+ */
+abstract class PatternPiiDetector implements PiiDetector {
+  abstract readonly name: string;
+  abstract readonly type: string;
+  protected abstract readonly pattern: RegExp;
+
+  find(text: string): PiiMatch[] {
+    return Array.from(text.matchAll(this.pattern))
+      .filter((match) => this.accept(match[0]))
+      .map((match) => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }));
+  }
+
+  protected accept(_match: string): boolean {
+    return true;
+  }
+}
+
+const digitCount = (text: string) => text.replace(/\D/g, "").length;
+
+export class EmailPiiDetector extends PatternPiiDetector {
+  readonly name = "email";
+  readonly type = "EMAIL";
+  protected readonly pattern = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+}
+
+// 13 to 19 digits, optionally grouped, that pass the Luhn check
+export class CardNumberPiiDetector extends PatternPiiDetector {
+  readonly name = "card";
+  readonly type = "CARD_NUMBER";
+  protected readonly pattern = /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g;
+
+  protected accept(match: string): boolean {
+    const digits = match.replace(/\D/g, "");
+    let sum = 0;
+    for (let i = 0; i < digits.length; i += 1) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) {
+          digit -= 9;
+        }
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+}
+
+// 9 to 15 digits with an optional +country code, (area code) and separators;
+// shorter runs are more often dates, prices or order numbers
+export class PhonePiiDetector extends PatternPiiDetector {
+  readonly name = "phone";
+  readonly type = "PHONE";
+  protected readonly pattern =
+    /(?<![\w/.+-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w/-])/g;
+
+  protected accept(match: string): boolean {
+    const digits = digitCount(match);
+    return digits >= 9 && digits <= 15;
+  }
+}
+
+// House number, up to four words and a street suffix ("221B Baker Street")
+export class StreetAddressPiiDetector extends PatternPiiDetector {
+  readonly name = "address";
+  readonly type = "ADDRESS";
+  protected readonly pattern =
+    /\b\d{1,6}[a-z]?\s+(?:[a-z][\w.'-]*\s+){0,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|place|pl|terrace|parkway|pkwy|way)\b\.?/gi;
+}
@@ -0,0 +1,19 @@
+export const PII_DETECTORS = Symbol("PII_DETECTORS");
+
+// Characters [start, end) of the text that hold personal data
+export type PiiMatch = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Finds one kind of personal data in message text. Implementations are
+ * registered in RedactionModule under PII_DETECTORS, and the PII_REDACTION
+ * setting picks them by `name`.
+ */
+export interface PiiDetector {
+  readonly name: string;
+  // Matches are replaced with `<TYPE>`, e.g. <EMAIL>
+  readonly type: string;
+  find(text: string): PiiMatch[];
+}
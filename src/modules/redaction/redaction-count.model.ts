@@ -0,0 +1,11 @@
+import { Field, Int, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class RedactionCount {
+  // Placeholder type, e.g. EMAIL for <EMAIL>
+  @Field()
+  type!: string;
+
+  @Field(() => Int)
+  count!: number;
+}
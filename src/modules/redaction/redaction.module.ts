@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common'
+import {
+  CardNumberPiiDetector,
+  EmailPiiDetector,
+  PhonePiiDetector,
+  StreetAddressPiiDetector
+} from './pattern-pii-detectors'
+import { PII_DETECTORS, PiiDetector } from './pii-detector'
+import { RedactionService } from './redaction.service'
+
+@Module({
+  providers: [
+    {
+      // Every detector PII_REDACTION can select, in the order they run; add
+      // new ones here. Card numbers go before phones, which look alike.
+      provide: PII_DETECTORS,
+      useFactory: (): PiiDetector[] => [
+        new EmailPiiDetector(),
+        new CardNumberPiiDetector(),
+        new PhonePiiDetector(),
+        new StreetAddressPiiDetector()
+      ]
+    },
+    RedactionService
+  ],
+  exports: [RedactionService]
+})
+export class RedactionModule {}
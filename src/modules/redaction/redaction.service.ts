@@ -0,0 +1,97 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PII_DETECTORS, PiiDetector } from "./pii-detector";
+import { RedactionCount } from "./redaction-count.model";
+
+export type Redaction = {
+  text: string;
+  // One entry per placeholder type that was inserted
+  counts: RedactionCount[];
+};
+
+// Payload keys that hold what people wrote, at any depth
+const PAYLOAD_TEXT_FIELDS = new Set([
+  "text",
+  "html",
+  "title",
+  "pretext",
+  "fallback",
+]);
+
+/**
+ * Replaces personal data in message text with typed placeholders such as
+ * <EMAIL> before the text is embedded by a third-party provider.
+ * PII_REDACTION=<name>,<name> (or `none`) picks the detectors; they run in
+ * registration order, each on the output of the previous one.
+ */
+@Injectable()
+export class RedactionService {
+  private readonly detectors: PiiDetector[];
+
+  constructor(
+    config: ConfigService,
+    @Inject(PII_DETECTORS) detectors: PiiDetector[],
+  ) {
+    const setting = config.get<string>("PII_REDACTION");
+    const names =
+      !setting || setting.trim() === "none"
+        ? []
+        : setting.split(",").map((name) => name.trim());
+    for (const name of names) {
+      if (!detectors.some((detector) => detector.name === name)) {
+        throw new Error(
+          `Unknown PII_REDACTION detector "${name}" (available: ${detectors
+            .map((detector) => detector.name)
+            .join(", ")}, or none)`,
+        );
+      }
+    }
+    this.detectors = setting
+      ? detectors.filter((detector) => names.includes(detector.name))
+      : detectors;
+  }
+
+  redact(text: string): Redaction {
+    let redacted = text;
+    const counts: RedactionCount[] = [];
+    for (const detector of this.detectors) {
+      const matches = detector.find(redacted);
+      if (matches.length === 0) {
+        continue;
+      }
+      // Replace from the end so earlier offsets stay valid
+      for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+        redacted =
+          redacted.slice(0, match.start) +
+          `<${detector.type}>` +
+          redacted.slice(match.end);
+      }
+      counts.push({ type: detector.type, count: matches.length });
+    }
+
+    return { text: redacted, counts };
+  }
+
+  // Redact the free-text fields of a stored payload (the StreamChat message
+  // object repeats the text, as do attachments and quoted messages). Ids,
+  // channel ids and URLs are left alone, since lookups depend on them
+  redactPayload(payload: Record<string, unknown>): Record<string, unknown> {
+    const redactValue = (value: unknown, key?: string): unknown =>
+      typeof value === "string"
+        ? key && PAYLOAD_TEXT_FIELDS.has(key)
+          ? this.redact(value).text
+          : value
+        : Array.isArray(value)
+          ? value.map((entry) => redactValue(entry, key))
+          : value && typeof value === "object"
+            ? Object.fromEntries(
+                Object.entries(value).map(([entryKey, entry]) => [
+                  entryKey,
+                  redactValue(entry, entryKey),
+                ]),
+              )
+            : value;
+
+    return redactValue(payload) as Record<string, unknown>;
+  }
+}
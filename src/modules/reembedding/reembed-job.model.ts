@@ -0,0 +1,45 @@
+import { Field, Float, ID, Int, ObjectType } from "@nestjs/graphql";
+import { ReembedStatus } from "./reembed-status.enum";
+
+@ObjectType()
+export class ReembedJob {
+  @Field(() => ID)
+  id!: string;
+
+  // Embedding model every stored vector is moved to
+  @Field()
+  targetModel!: string;
+
+  @Field(() => ReembedStatus)
+  status!: ReembedStatus;
+
+  // Counted when the job started
+  @Field(() => Int)
+  totalMessages!: number;
+
+  @Field(() => Int)
+  processedMessages!: number;
+
+  @Field(() => Int)
+  totalTemplates!: number;
+
+  @Field(() => Int)
+  processedTemplates!: number;
+
+  // Share of messages and templates done, 0..1
+  @Field(() => Float)
+  progress!: number;
+
+  // Most recent batch failure; the job retries on the next tick
+  @Field({ nullable: true })
+  lastError?: string;
+
+  @Field()
+  createdAt!: Date;
+
+  @Field()
+  updatedAt!: Date;
+
+  @Field({ nullable: true })
+  completedAt?: Date;
+}
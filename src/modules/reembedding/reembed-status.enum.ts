@@ -0,0 +1,9 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum ReembedStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed'
+}
+
+registerEnumType(ReembedStatus, { name: 'ReembedStatus' })
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { DbModule } from '../../db/db.module'
+import { EmbeddingsModule } from '../embeddings/embeddings.module'
+import { MessagesModule } from '../messages/messages.module'
+import { ReembeddingResolver } from './reembedding.resolver'
+import { ReembeddingService } from './reembedding.service'
+
+@Module({
+  imports: [DbModule, EmbeddingsModule, MessagesModule],
+  providers: [ReembeddingService, ReembeddingResolver],
+  exports: [ReembeddingService]
+})
+export class ReembeddingModule {}
@@ -0,0 +1,25 @@
+import { Args, ID, Mutation, Query, Resolver } from "@nestjs/graphql";
+import { ReembedJob } from "./reembed-job.model";
+import { ReembeddingService } from "./reembedding.service";
+
+@Resolver(() => ReembedJob)
+export class ReembeddingResolver {
+  constructor(private reembedding: ReembeddingService) {}
+
+  @Query(() => ReembedJob, { nullable: true })
+  reembedJob(
+    @Args("id", { type: () => ID }) id: string,
+  ): Promise<ReembedJob | null> {
+    return this.reembedding.getJob(id);
+  }
+
+  @Query(() => [ReembedJob])
+  reembedJobs(): Promise<ReembedJob[]> {
+    return this.reembedding.listJobs();
+  }
+
+  @Mutation(() => ReembedJob)
+  startReembed(): Promise<ReembedJob> {
+    return this.reembedding.startJob();
+  }
+}
@@ -0,0 +1,394 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { PoolClient } from "pg";
+import { DbService } from "../../db/db.service";
+import { toVectorLiteral } from "../../db/vector";
+import { refreshClusterCentroids } from "../clusters/cluster-centroid";
+import { EmbeddingsService } from "../embeddings/embeddings.service";
+import { MessagesService } from "../messages/messages.service";
+import { ReembedJob } from "./reembed-job.model";
+import { ReembedStatus } from "./reembed-status.enum";
+
+// Rows re-embedded per batch, in one provider round-trip
+const BATCH_SIZE = 100;
+// How long a worker may hold a batch before another one takes over
+const BATCH_CLAIM_MS = 5 * 60 * 1000;
+
+// Where each kind of stored embedding lives
+type EmbeddingTable = {
+  table: "messages" | "response_templates";
+  textColumn: string;
+  // Set when textColumn may already hold the text as it is embedded
+  preparedColumn: string | null;
+  embeddingColumn: string;
+  providerColumn: string;
+  modelColumn: string;
+  progressColumn: "processed_messages" | "processed_templates";
+};
+
+// Messages are embedded from their normalized text, as at ingest
+const MESSAGE_EMBEDDINGS: EmbeddingTable = {
+  table: "messages",
+  textColumn: "COALESCE(normalized_text, text)",
+  preparedColumn: "normalized_text",
+  embeddingColumn: "embedding",
+  providerColumn: "embedding_provider",
+  modelColumn: "embedding_model",
+  progressColumn: "processed_messages",
+};
+
+// Templates saved without question text cannot be re-embedded
+const TEMPLATE_EMBEDDINGS: EmbeddingTable = {
+  table: "response_templates",
+  textColumn: "question_text",
+  preparedColumn: null,
+  embeddingColumn: "question_embedding",
+  providerColumn: "question_embedding_provider",
+  modelColumn: "question_embedding_model",
+  progressColumn: "processed_templates",
+};
+
+type ReembedJobRow = {
+  id: string;
+  target_model: string;
+  status: ReembedStatus;
+  total_messages: number;
+  processed_messages: number;
+  total_templates: number;
+  processed_templates: number;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+};
+
+@Injectable()
+export class ReembeddingService {
+  private readonly logger = new Logger(ReembeddingService.name);
+
+  constructor(
+    private db: DbService,
+    private embeddings: EmbeddingsService,
+    private messages: MessagesService,
+  ) {}
+
+  /**
+   * Start moving every stored message and template embedding that was not
+   * produced by the active model over to it. Returns the running job instead
+   * when one already targets the active model; a running job for any other
+   * model is marked failed, since it can no longer make progress.
+   */
+  async startJob(): Promise<ReembedJob> {
+    const model = this.embeddings.modelName;
+    await this.failStaleJobs(model);
+
+    const running = await this.findRunningJob(model);
+    if (running) {
+      return this.mapJobRow(running);
+    }
+
+    const inserted = await this.db.query<ReembedJobRow>(
+      `
+        INSERT INTO reembed_jobs (target_model, total_messages, total_templates)
+        VALUES (
+          $1,
+          (
+            SELECT count(*)
+            FROM ${MESSAGE_EMBEDDINGS.table}
+            WHERE ${this.staleFilter(MESSAGE_EMBEDDINGS)}
+          ),
+          (
+            SELECT count(*)
+            FROM ${TEMPLATE_EMBEDDINGS.table}
+            WHERE ${this.staleFilter(TEMPLATE_EMBEDDINGS)}
+          )
+        )
+        RETURNING *
+      `,
+      [model],
+    );
+    this.logger.log(`Started re-embed job ${inserted.rows[0].id} to ${model}`);
+
+    return this.mapJobRow(inserted.rows[0]);
+  }
+
+  async getJob(id: string): Promise<ReembedJob | null> {
+    const result = await this.db.query<ReembedJobRow>(
+      `SELECT * FROM reembed_jobs WHERE id = $1`,
+      [id],
+    );
+    return result.rows[0] ? this.mapJobRow(result.rows[0]) : null;
+  }
+
+  async listJobs(limit = 20): Promise<ReembedJob[]> {
+    const result = await this.db.query<ReembedJobRow>(
+      `
+        SELECT *
+        FROM reembed_jobs
+        ORDER BY created_at DESC
+        LIMIT $1
+      `,
+      [limit],
+    );
+    return result.rows.map((row) => this.mapJobRow(row));
+  }
+
+  /**
+   * Re-embed the next batch for the running job: messages first, then
+   * templates. Marks the job completed once nothing is left. A failed batch
+   * is rolled back and recorded on the job, and retried on the next call.
+   * Returns the number of rows re-embedded (0 while another worker holds
+   * the batch, or when every row of it was edited meanwhile).
+   */
+  async processNextBatch(limit = BATCH_SIZE): Promise<number> {
+    const model = this.embeddings.modelName;
+    await this.failStaleJobs(model);
+
+    const job = await this.findRunningJob(model);
+    if (!job) {
+      return 0;
+    }
+
+    // One batch at a time across workers, without locking the rows while
+    // they are embedded; the claim lapses if the worker dies mid-batch
+    const claimed = await this.db.query(
+      `
+        UPDATE reembed_jobs
+        SET batch_claimed_until = now() + $2 * interval '1 millisecond'
+        WHERE id = $1
+          AND (batch_claimed_until IS NULL OR batch_claimed_until < now())
+      `,
+      [job.id, BATCH_CLAIM_MS],
+    );
+    if (!claimed.rowCount) {
+      return 0;
+    }
+
+    try {
+      let batch = await this.reembedBatch(
+        job.id,
+        MESSAGE_EMBEDDINGS,
+        model,
+        limit,
+      );
+      if (batch.selected === 0) {
+        batch = await this.reembedBatch(
+          job.id,
+          TEMPLATE_EMBEDDINGS,
+          model,
+          limit,
+        );
+      }
+
+      if (batch.selected === 0) {
+        await this.db.query(
+          `
+            UPDATE reembed_jobs
+            SET status = 'completed',
+                completed_at = now(),
+                updated_at = now()
+            WHERE id = $1
+          `,
+          [job.id],
+        );
+        this.logger.log(`Re-embed job ${job.id} completed`);
+      }
+
+      return batch.written;
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(`Re-embed job ${job.id} batch failed: ${message}`);
+      await this.db.query(
+        `
+          UPDATE reembed_jobs
+          SET last_error = $2,
+              updated_at = now()
+          WHERE id = $1
+        `,
+        [job.id, message],
+      );
+      return 0;
+    } finally {
+      await this.db.query(
+        `
+          UPDATE reembed_jobs
+          SET batch_claimed_until = NULL
+          WHERE id = $1
+        `,
+        [job.id],
+      );
+    }
+  }
+
+  // The batch is read without holding row locks, so a slow provider never
+  // blocks ingest; the write-back skips rows that were re-embedded or edited
+  // in the meantime. Edited rows are still stale and come up again in a
+  // later batch, so only written rows count as progress
+  private async reembedBatch(
+    jobId: string,
+    target: EmbeddingTable,
+    model: string,
+    limit: number,
+  ): Promise<{ selected: number; written: number }> {
+    const stale = await this.db.query<{
+      id: string;
+      text: string;
+      prepared: boolean;
+    }>(
+      `
+        SELECT
+          id,
+          ${target.textColumn} AS text,
+          ${target.preparedColumn ? `${target.preparedColumn} IS NOT NULL` : "false"} AS prepared
+        FROM ${target.table}
+        WHERE ${this.staleFilter(target)}
+        ORDER BY id
+        LIMIT $2
+      `,
+      [model, limit],
+    );
+    if (stale.rows.length === 0) {
+      return { selected: 0, written: 0 };
+    }
+
+    const ids = stale.rows.map((row) => row.id);
+    // Older messages and template questions may hold raw personal data and
+    // were never normalized; they are embedded in the form ingest embeds
+    const vectors = await this.embeddings.embedMany(
+      stale.rows.map((row) =>
+        row.prepared ? row.text : this.messages.matchText(row.text),
+      ),
+    );
+
+    return this.db.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const written = await client.query<{ id: string }>(
+          `
+            UPDATE ${target.table} t
+            SET ${target.embeddingColumn} = v.value::vector,
+                ${target.providerColumn} = $4,
+                ${target.modelColumn} = $5
+            FROM unnest($1::uuid[], $2::text[], $3::text[])
+              AS v(id, value, source)
+            WHERE t.id = v.id
+              AND ${this.staleFilter(target, "$5")}
+              AND ${target.textColumn} = v.source
+            RETURNING t.id
+          `,
+          [
+            ids,
+            vectors.map((vector) => toVectorLiteral(vector)),
+            stale.rows.map((row) => row.text),
+            this.embeddings.providerName,
+            model,
+          ],
+        );
+
+        if (target === MESSAGE_EMBEDDINGS) {
+          await this.refreshCentroidsOf(
+            client,
+            written.rows.map((row) => row.id),
+            model,
+          );
+        }
+
+        await client.query(
+          `
+            UPDATE reembed_jobs
+            SET ${target.progressColumn} = ${target.progressColumn} + $2,
+                last_error = NULL,
+                updated_at = now()
+            WHERE id = $1
+          `,
+          [jobId, written.rows.length],
+        );
+
+        await client.query("COMMIT");
+        return { selected: ids.length, written: written.rows.length };
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  // Clusters average only active-model members, so re-embedded members
+  // change their centroid
+  private async refreshCentroidsOf(
+    client: PoolClient,
+    messageIds: string[],
+    model: string,
+  ): Promise<void> {
+    const clusters = await client.query<{ cluster_id: string }>(
+      `
+        SELECT DISTINCT cluster_id
+        FROM cluster_messages
+        WHERE message_id = ANY($1::uuid[])
+      `,
+      [messageIds],
+    );
+    await refreshClusterCentroids(
+      client,
+      clusters.rows.map((row) => row.cluster_id),
+      model,
+    );
+  }
+
+  // Rows holding an embedding from a model other than `model` (a parameter)
+  private staleFilter(target: EmbeddingTable, model = "$1"): string {
+    return `
+      ${target.embeddingColumn} IS NOT NULL
+      AND ${target.textColumn} IS NOT NULL
+      AND ${target.modelColumn} IS DISTINCT FROM ${model}
+    `;
+  }
+
+  private async findRunningJob(model: string): Promise<ReembedJobRow | null> {
+    const result = await this.db.query<ReembedJobRow>(
+      `
+        SELECT *
+        FROM reembed_jobs
+        WHERE status = 'running'
+          AND target_model = $1
+      `,
+      [model],
+    );
+    return result.rows[0] || null;
+  }
+
+  private async failStaleJobs(model: string): Promise<void> {
+    await this.db.query(
+      `
+        UPDATE reembed_jobs
+        SET status = 'failed',
+            last_error = 'Embedding model changed to ' || $1,
+            updated_at = now()
+        WHERE status = 'running'
+          AND target_model <> $1
+      `,
+      [model],
+    );
+  }
+
+  private mapJobRow(row: ReembedJobRow): ReembedJob {
+    const total = row.total_messages + row.total_templates;
+    const processed = row.processed_messages + row.processed_templates;
+    return {
+      id: row.id,
+      targetModel: row.target_model,
+      status: row.status,
+      totalMessages: row.total_messages,
+      processedMessages: row.processed_messages,
+      totalTemplates: row.total_templates,
+      processedTemplates: row.processed_templates,
+      progress:
+        row.status === ReembedStatus.Completed || total === 0
+          ? 1
+          : Math.min(processed / total, 1),
+      lastError: row.last_error || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at || undefined,
+    };
+  }
+}
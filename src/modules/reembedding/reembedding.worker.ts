@@ -0,0 +1,43 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IntervalPoller } from "../../workers/interval-poller";
+import { ReembeddingService } from "./reembedding.service";
+
+/**
+ * Advances the running re-embed job one batch per tick, and picks an
+ * interrupted job back up after a restart.
+ * Set REEMBED_POLL_MS=0 to disable (e.g. when a separate worker process
+ * owns re-embedding).
+ */
+@Injectable()
+export class ReembeddingWorker implements OnModuleInit, OnModuleDestroy {
+  private readonly poller: IntervalPoller;
+
+  constructor(config: ConfigService, reembedding: ReembeddingService) {
+    this.poller = new IntervalPoller(
+      config,
+      new Logger(ReembeddingWorker.name),
+      {
+        setting: "REEMBED_POLL_MS",
+        defaultMs: 1000,
+        name: "re-embed worker",
+        run: async () => {
+          await reembedding.processNextBatch();
+        },
+      },
+    );
+  }
+
+  onModuleInit() {
+    this.poller.start();
+  }
+
+  onModuleDestroy() {
+    this.poller.stop();
+  }
+}
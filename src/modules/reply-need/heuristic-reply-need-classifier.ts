@@ -0,0 +1,59 @@
+import { ReplyNeedClassifier, ReplyNeedVerdict } from "./reply-need-classifier";
+
+// Whole phrases that need no answer on their own, by label
+const PHRASES: Array<[string, RegExp]> = [
+  [
+    "greeting",
+    /^(?:h+i+|hey+|hello+|yo|sup|hola|gm|gn|good (?:morning|afternoon|evening|night))\b/,
+  ],
+  [
+    "acknowledgement",
+    /^(?:thanks?(?: you)?|thank u|thx|ty(?:sm)?|ok(?:ay)?|k+|cool|nice|great|awesome|perfect|got it|sounds good|will do|np|no (?:problem|worries)|you'?re welcome|yw|sure|yes|yep|yeah|ya|no|nope)\b/,
+  ],
+  [
+    "reaction",
+    /^(?:lol+|lmao+|rofl|(?:ha)+h?|(?:he)+h?|omg|wow+|love (?:it|this|you|u)|amazing|<3)(?=\s|[^\w]|$)/,
+  ],
+];
+// Fillers that do not change the meaning of the phrase before them
+const FILLER =
+  /^(?:so much|a lot|again|too|guys?|babe|man|bro|all|[^\p{L}\p{N}\s]+)(?=\s|$)/u;
+
+/**
+ * Rule-based classifier: a message needs no reply when it has no question
+ * mark and is nothing but greetings, acknowledgements and reactions
+ * ("hi!", "ok thank you so much", "lol") or has no letters or digits at
+ * all (emoji only). Anything else is assumed to need a reply.
+ */
+export class HeuristicReplyNeedClassifier implements ReplyNeedClassifier {
+  readonly name = "heuristic";
+
+  async classify(text: string): Promise<ReplyNeedVerdict> {
+    if (text.includes("?")) {
+      return { needsReply: true };
+    }
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      return { needsReply: false, label: "reaction" };
+    }
+
+    let rest = text.toLowerCase().trim();
+    let label: string | undefined;
+    while (rest) {
+      const phrase = PHRASES.map(
+        ([name, pattern]) => [name, rest.match(pattern)] as const,
+      ).find(([, match]) => match);
+      const filler = label ? rest.match(FILLER) : null;
+      const match = phrase?.[1] ?? filler;
+      if (!match) {
+        return { needsReply: true };
+      }
+      label ??= phrase?.[0];
+      rest = rest
+        .slice(match[0].length)
+        .replace(/^[\s,.!]+/, "")
+        .trim();
+    }
+
+    return { needsReply: false, label };
+  }
+}
@@ -0,0 +1,39 @@
+import { ReplyNeedClassifier, ReplyNeedVerdict } from "./reply-need-classifier";
+
+/**
+ * Asks an external tagging service. POSTs `{ "text": ... }` as JSON and
+ * expects `{ "needsReply": boolean, "label"?: string }` back.
+ */
+export class HttpReplyNeedClassifier implements ReplyNeedClassifier {
+  readonly name = "http";
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async classify(text: string): Promise<ReplyNeedVerdict> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `Reply need classifier error: ${response.status} ${body}`,
+      );
+    }
+
+    const verdict = (await response.json()) as Partial<ReplyNeedVerdict>;
+    if (typeof verdict.needsReply !== "boolean") {
+      throw new Error("Reply need classifier returned no needsReply flag");
+    }
+    return {
+      needsReply: verdict.needsReply,
+      label: typeof verdict.label === "string" ? verdict.label : undefined,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+export const REPLY_NEED_CLASSIFIER = Symbol("REPLY_NEED_CLASSIFIER");
+
+export type ReplyNeedVerdict = {
+  needsReply: boolean;
+  // Why no reply is needed, e.g. "greeting"; free-form for external services
+  label?: string;
+};
+
+/**
+ * Decides whether a visitor message asks for a reply. Messages that do not
+ * (greetings, thanks, reactions) are stored but kept out of clustering.
+ * ReplyNeedModule provides the one REPLY_NEED_CLASSIFIER selects.
+ */
+export interface ReplyNeedClassifier {
+  // Reported with every classification
+  readonly name: string;
+  // `text` is the message as it is matched: redacted and normalized
+  classify(text: string): Promise<ReplyNeedVerdict>;
+}
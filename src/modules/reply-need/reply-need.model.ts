@@ -0,0 +1,16 @@
+import { Field, ObjectType } from "@nestjs/graphql";
+
+@ObjectType()
+export class ReplyNeed {
+  // False keeps the message out of clustering
+  @Field()
+  needsReply!: boolean;
+
+  // Why no reply is needed (greeting, acknowledgement, reaction, ...)
+  @Field({ nullable: true })
+  label?: string;
+
+  // REPLY_NEED_CLASSIFIER that decided
+  @Field()
+  classifier!: string;
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { HeuristicReplyNeedClassifier } from './heuristic-reply-need-classifier'
+import { HttpReplyNeedClassifier } from './http-reply-need-classifier'
+import { REPLY_NEED_CLASSIFIER } from './reply-need-classifier'
+
+@Module({
+  providers: [
+    {
+      provide: REPLY_NEED_CLASSIFIER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const classifier = config.get<string>('REPLY_NEED_CLASSIFIER') || 'heuristic'
+        if (classifier === 'heuristic') {
+          return new HeuristicReplyNeedClassifier()
+        }
+        if (classifier === 'http') {
+          const url = config.get<string>('REPLY_NEED_CLASSIFIER_URL')
+          if (!url) {
+            throw new Error('REPLY_NEED_CLASSIFIER_URL is required for the http reply need classifier')
+          }
+          return new HttpReplyNeedClassifier(url, Number(config.get<string>('REPLY_NEED_TIMEOUT_MS') || 2000))
+        }
+        throw new Error(`Unknown REPLY_NEED_CLASSIFIER "${classifier}" (available: heuristic, http)`)
+      }
+    }
+  ],
+  exports: [REPLY_NEED_CLASSIFIER]
+})
+export class ReplyNeedModule {}
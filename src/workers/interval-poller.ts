@@ -0,0 +1,60 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+export type IntervalPollerOptions = {
+  // Setting holding the interval in milliseconds; 0 disables the poller
+  setting: string;
+  defaultMs: number;
+  // Named in the warning logged when the poller is disabled
+  name: string;
+  // One batch of work
+  run: () => Promise<void>;
+};
+
+/**
+ * Runs a batch of background work every `setting` milliseconds. A tick is
+ * skipped while the previous batch is still running, and a failed batch is
+ * logged and retried on the next tick. Setting the interval to 0 disables
+ * the poller (e.g. when a separate worker process owns the work).
+ */
+export class IntervalPoller {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly logger: Logger,
+    private readonly options: IntervalPollerOptions,
+  ) {}
+
+  start(): void {
+    const { setting, defaultMs, name } = this.options;
+    const intervalMs = Number(this.config.get<string>(setting) ?? defaultMs);
+    if (intervalMs <= 0) {
+      this.logger.warn(`${setting} is 0, ${name} disabled`);
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip overlapping ticks while a slow batch is still running
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.options.run();
+    } catch (error) {
+      this.logger.error("Tick failed", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { DeliveriesModule } from '../modules/deliveries/deliveries.module'
+import { DeliveriesWorker } from '../modules/deliveries/deliveries.worker'
+import { IngestQueueWorker } from '../modules/messages/ingest-queue.worker'
+import { MessagesModule } from '../modules/messages/messages.module'
+import { PendingEmbeddingsWorker } from '../modules/messages/pending-embeddings.worker'
+import { ReembeddingModule } from '../modules/reembedding/reembedding.module'
+import { ReembeddingWorker } from '../modules/reembedding/reembedding.worker'
+
+// Pollers that change live data; only the server imports them, so the replay
+// and eval CLIs can load the feature modules without starting them
+@Module({
+  imports: [DeliveriesModule, MessagesModule, ReembeddingModule],
+  providers: [DeliveriesWorker, IngestQueueWorker, PendingEmbeddingsWorker, ReembeddingWorker]
+})
+export class WorkersModule {}
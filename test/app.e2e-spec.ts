@@ -1,25 +1,78 @@
 import { Test, TestingModule } from "@nestjs/testing";
-import { INestApplication, ValidationPipe } from "@nestjs/common";
+import { INestApplication, Logger, ValidationPipe } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import request from "supertest";
 import { AppModule } from "../src/app.module";
+import { CacheService } from "../src/cache/cache.service";
 import { DbService } from "../src/db/db.service";
+import { toVectorLiteral } from "../src/db/vector";
+import { DeliveriesService } from "../src/modules/deliveries/deliveries.service";
+import { CircuitBreaker } from "../src/modules/embeddings/circuit-breaker";
+import { EmbeddingDimensionCheck } from "../src/modules/embeddings/embedding-dimension.check";
+import {
+  EmbeddingRequestError,
+  EmbeddingUnavailableError,
+} from "../src/modules/embeddings/embedding-errors";
+import { EmbeddingsService } from "../src/modules/embeddings/embeddings.service";
+import { LocalEmbeddingProvider } from "../src/modules/embeddings/local-embedding-provider";
+import { OpenAIEmbeddingProvider } from "../src/modules/embeddings/openai-embedding-provider";
+import { StubEmbeddingProvider } from "../src/modules/embeddings/stub-embedding-provider";
+import { IngestBatchItemResult } from "../src/modules/messages/ingest-batch-item-result.model";
+import { MessagesService } from "../src/modules/messages/messages.service";
+import { TextNormalizer } from "../src/modules/messages/text-normalizer";
+import { REPLY_DISPATCHER } from "../src/modules/deliveries/reply-dispatcher";
+import { ReembeddingService } from "../src/modules/reembedding/reembedding.service";
+import {
+  CardNumberPiiDetector,
+  EmailPiiDetector,
+  PhonePiiDetector,
+  StreetAddressPiiDetector,
+} from "../src/modules/redaction/pattern-pii-detectors";
+import { RedactionService } from "../src/modules/redaction/redaction.service";
+import { HeuristicReplyNeedClassifier } from "../src/modules/reply-need/heuristic-reply-need-classifier";
+import { HttpReplyNeedClassifier } from "../src/modules/reply-need/http-reply-need-classifier";
+import {
+  REPLY_NEED_CLASSIFIER,
+  ReplyNeedClassifier,
+} from "../src/modules/reply-need/reply-need-classifier";
+import { IntervalPoller } from "../src/workers/interval-poller";
+import { loadDataset, runEvaluation } from "./eval/harness";
+import { evaluateClusters } from "./eval/metrics";
+import { TestReplyDispatcher } from "./doubles/test-reply-dispatcher";
 
 describe("Similarity Buckets E2E", () => {
   let app: INestApplication;
   let dbService: DbService;
+  let deliveriesService: DeliveriesService;
+  let dispatcher: TestReplyDispatcher;
 
   const CREATOR_ID = "00000000-0000-4000-a000-000000000001";
 
   beforeAll(async () => {
+    // Tests drive the outbox through processPending, so keep the polling
+    // worker from claiming rows in between
+    process.env.REPLY_DELIVERY_POLL_MS = "0";
+    // Same for the re-embed job, driven through processNextBatch
+    process.env.REEMBED_POLL_MS = "0";
+    // ...and for pending embeddings, driven through processPendingEmbeddings
+    process.env.PENDING_EMBEDDINGS_POLL_MS = "0";
+    // ...and for async ingest, driven through processIngestQueue
+    process.env.INGEST_QUEUE_POLL_MS = "0";
+
+    dispatcher = new TestReplyDispatcher();
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
-    }).compile();
+    })
+      .overrideProvider(REPLY_DISPATCHER)
+      .useValue(dispatcher)
+      .compile();
 
     app = moduleFixture.createNestApplication();
     app.useGlobalPipes(new ValidationPipe({ transform: true }));
     await app.init();
 
     dbService = moduleFixture.get<DbService>(DbService);
+    deliveriesService = moduleFixture.get<DeliveriesService>(DeliveriesService);
   });
 
   afterAll(async () => {
@@ -38,11 +91,58 @@ describe("Similarity Buckets E2E", () => {
       `DELETE FROM response_templates WHERE creator_id = $1`,
       [CREATOR_ID],
     );
+    await dbService.query(
+      `DELETE FROM reply_deliveries WHERE creator_id = $1`,
+      [CREATOR_ID],
+    );
+    await dbService.query(
+      `DELETE FROM creator_settings WHERE creator_id = $1`,
+      [CREATOR_ID],
+    );
+    dispatcher.reset();
   });
 
   const gql = (query: string, variables?: Record<string, unknown>) =>
     request(app.getHttpServer()).post("/graphql").send({ query, variables });
 
+  const INGEST = `mutation Ingest($input: IngestMessageInput!) {
+    ingestMessage(input: $input) {
+      messageId
+      clusterId
+      matchedMessageId
+      similarity
+      outcome
+      matchReason
+      clusteringStatus
+      embeddingSkipped
+      embeddingPending
+      supersededMessageIds
+      redactions { type count }
+      replyNeed { needsReply label classifier }
+      candidates {
+        messageId
+        clusterId
+        trigramSimilarity
+        cosineSimilarity
+        centroidSimilarity
+      }
+    }
+  }`;
+
+  // Ingest a message for CREATOR_ID (unless `extra` names another creator)
+  const ingest = async (
+    messageId: string,
+    text: string,
+    channelId: string,
+    extra: Record<string, unknown> = {},
+  ) => {
+    const res = await gql(INGEST, {
+      input: { creatorId: CREATOR_ID, messageId, text, channelId, ...extra },
+    });
+    expect(res.body.errors).toBeUndefined();
+    return res.body.data.ingestMessage;
+  };
+
   describe("Message Ingestion", () => {
     it("should create a new cluster for first message", async () => {
       const res = await gql(
@@ -208,6 +308,926 @@ describe("Similarity Buckets E2E", () => {
       expect(channelIds).toContain("channel-1");
       expect(channelIds).toContain("channel-2");
     });
+
+    it("should return the original result when a message is redelivered", async () => {
+      const input = {
+        creatorId: CREATOR_ID,
+        messageId: "ext-msg-1",
+        text: "Do you offer discounts for students?",
+        channelId: "channel-1",
+        visitorUserId: "visitor-1",
+        visitorUsername: "Jane",
+      };
+      const mutation = `mutation Ingest($input: IngestMessageInput!) {
+        ingestMessage(input: $input) { messageId clusterId outcome }
+      }`;
+
+      const first = await gql(mutation, { input });
+      const second = await gql(mutation, { input });
+
+      expect(first.body.data.ingestMessage.outcome).toBe("Created");
+      expect(second.body.errors).toBeUndefined();
+      expect(second.body.data.ingestMessage.outcome).toBe("Duplicate");
+      expect(second.body.data.ingestMessage.messageId).toBe(
+        first.body.data.ingestMessage.messageId,
+      );
+      expect(second.body.data.ingestMessage.clusterId).toBe(
+        first.body.data.ingestMessage.clusterId,
+      );
+
+      const stored = await dbService.query(
+        `SELECT COUNT(*) as count FROM messages WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      expect(Number(stored.rows[0].count)).toBe(1);
+    });
+
+    it("should re-cluster a redelivered message with edited text", async () => {
+      const mutation = `mutation Ingest($input: IngestMessageInput!) {
+        ingestMessage(input: $input) { messageId clusterId outcome }
+      }`;
+
+      const pricing = await gql(mutation, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: "How much do you charge for a shoutout?",
+          channelId: "channel-1",
+        },
+      });
+      const original = await gql(mutation, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "When is your next live stream?",
+          channelId: "channel-2",
+        },
+      });
+      expect(original.body.data.ingestMessage.clusterId).not.toBe(
+        pricing.body.data.ingestMessage.clusterId,
+      );
+
+      // Visitor edits their message into a pricing question
+      const edited = await gql(mutation, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "How much do you charge for a shoutout?",
+          channelId: "channel-2",
+        },
+      });
+
+      expect(edited.body.errors).toBeUndefined();
+      expect(edited.body.data.ingestMessage.outcome).toBe("Updated");
+      expect(edited.body.data.ingestMessage.messageId).toBe(
+        original.body.data.ingestMessage.messageId,
+      );
+      expect(edited.body.data.ingestMessage.clusterId).toBe(
+        pricing.body.data.ingestMessage.clusterId,
+      );
+
+      // The old cluster was left empty and removed
+      const oldCluster = await dbService.query(
+        `SELECT COUNT(*) as count FROM clusters WHERE id = $1`,
+        [original.body.data.ingestMessage.clusterId],
+      );
+      expect(Number(oldCluster.rows[0].count)).toBe(0);
+
+      const stored = await dbService.query(
+        `SELECT text FROM messages WHERE id = $1`,
+        [original.body.data.ingestMessage.messageId],
+      );
+      expect(stored.rows[0].text).toBe(
+        "How much do you charge for a shoutout?",
+      );
+    });
+  });
+
+  describe("Batch Ingestion", () => {
+    const INGEST_MESSAGES = `mutation IngestMany($inputs: [IngestMessageInput!]!) {
+      ingestMessages(inputs: $inputs) {
+        index
+        error
+        result { messageId clusterId matchedMessageId similarity }
+      }
+    }`;
+
+    it("should ingest a batch and cluster messages within it", async () => {
+      const res = await gql(INGEST_MESSAGES, {
+        inputs: [
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-1",
+            text: "What is your collaboration rate?",
+            channelId: "channel-1",
+            visitorUserId: "visitor-1",
+            visitorUsername: "Jane",
+          },
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-2",
+            text: "What is your collaboration rate?",
+            channelId: "channel-2",
+            visitorUserId: "visitor-2",
+            visitorUsername: "Bob",
+          },
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-3",
+            text: "What is your collaboration rate?",
+            channelId: "channel-3",
+            visitorUserId: "visitor-3",
+            visitorUsername: "Alice",
+            isPaidDm: true,
+          },
+        ],
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      const results = res.body.data.ingestMessages;
+      expect(results.map((r: { index: number }) => r.index)).toEqual([0, 1, 2]);
+      expect(results.every((r: { error: string | null }) => !r.error)).toBe(
+        true,
+      );
+
+      // Second message joins the first one's cluster via trigram match
+      expect(results[1].result.clusterId).toBe(results[0].result.clusterId);
+      expect(results[1].result.matchedMessageId).toBe(
+        results[0].result.messageId,
+      );
+
+      // Paid DM still gets its own cluster
+      expect(results[2].result.clusterId).not.toBe(results[0].result.clusterId);
+    });
+
+    it("should report per-item errors without failing the batch", async () => {
+      const res = await gql(INGEST_MESSAGES, {
+        inputs: [
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-1",
+            text: "Do you ship internationally?",
+            channelId: "channel-1",
+          },
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-2",
+            text: "Do you ship internationally?",
+            channelId: "channel-2",
+            // Null byte is rejected by Postgres text columns
+            visitorUsername: "Bad\u0000Name",
+          },
+          {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-3",
+            text: "Do you ship internationally?",
+            channelId: "channel-3",
+          },
+        ],
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      const results = res.body.data.ingestMessages;
+      expect(results[0].result).toBeDefined();
+      expect(results[1].result).toBeNull();
+      expect(results[1].error).toBeTruthy();
+      expect(results[2].result.clusterId).toBe(results[0].result.clusterId);
+
+      const stored = await dbService.query(
+        `SELECT COUNT(*) as count FROM messages WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      expect(Number(stored.rows[0].count)).toBe(2);
+    });
+
+    it("should embed only messages that can reach vector matching", async () => {
+      const text = "What is your collaboration rate?";
+      await ingest("ext-msg-1", text, "channel-1");
+      // Embedded too, so a third copy can join by trigram alone
+      await ingest("ext-msg-2", text, "channel-2");
+
+      const embedMany = jest.spyOn(app.get(EmbeddingsService), "embedMany");
+      let results: IngestBatchItemResult[];
+      try {
+        results = await app.get(MessagesService).ingestMessages(
+          [text, "thanks!", "Do you ship internationally?"].map(
+            (body, index) => ({
+              creatorId: CREATOR_ID,
+              messageId: `ext-msg-${index + 3}`,
+              text: body,
+              channelId: `channel-${index + 3}`,
+            }),
+          ),
+        );
+        expect(embedMany).toHaveBeenCalledTimes(1);
+        expect(embedMany.mock.calls[0][0]).toHaveLength(1);
+      } finally {
+        embedMany.mockRestore();
+      }
+      expect(results.map((item) => item.result?.embeddingSkipped)).toEqual([
+        true,
+        true,
+        false,
+      ]);
+    });
+
+    it("should reject batches over the size limit as bad requests", async () => {
+      const res = await gql(INGEST_MESSAGES, {
+        inputs: Array.from({ length: 501 }, (_, index) => ({
+          creatorId: CREATOR_ID,
+          messageId: `ext-msg-${index}`,
+          text: "Do you ship internationally?",
+          channelId: `channel-${index}`,
+        })),
+      });
+
+      expect(res.body.errors[0].message).toBe(
+        "Batch size cannot exceed 500 messages",
+      );
+      expect(res.body.errors[0].extensions.code).toBe("BAD_REQUEST");
+    });
+  });
+
+  describe("Ingest Diagnostics", () => {
+    it("should explain trigram placement and skipped embeddings", async () => {
+      const text = "What is your collaboration rate?";
+      const first = await ingest("ext-msg-1", text, "channel-1");
+      expect(first.matchReason).toBe("NewCluster");
+      expect(first.embeddingSkipped).toBe(false);
+      expect(first.candidates).toBeNull();
+
+      const second = await ingest("ext-msg-2", text, "channel-2");
+      expect(second.matchReason).toBe("Trigram");
+      // Only the matched message has an embedding, so this one is embedded
+      expect(second.embeddingSkipped).toBe(false);
+
+      const third = await ingest("ext-msg-3", text, "channel-3");
+      expect(third.matchReason).toBe("Trigram");
+      expect(third.embeddingSkipped).toBe(true);
+    });
+
+    it("should explain vector placement", async () => {
+      const text = "What is your collaboration rate?";
+      const first = await ingest("ext-msg-1", text, "channel-1");
+      await gql(
+        `mutation RemoveMessage($clusterId: ID!, $messageId: ID!) {
+          removeClusterMessage(clusterId: $clusterId, messageId: $messageId) { id }
+        }`,
+        { clusterId: first.clusterId, messageId: first.messageId },
+      );
+
+      // A trigram hit on a detached message still goes through the vector step
+      const second = await ingest("ext-msg-2", text, "channel-2");
+      expect(second.matchReason).toBe("Vector");
+    });
+
+    it("should list superseded messages from the same channel", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const second = await ingest(
+        "ext-msg-2",
+        "When is your next live stream?",
+        "channel-1",
+      );
+
+      expect(second.supersededMessageIds).toEqual([first.messageId]);
+
+      // An edit of the older message leaves the newer one where it is
+      const edited = await ingest(
+        "ext-msg-1",
+        "What do you charge for a collaboration?",
+        "channel-1",
+      );
+      expect(edited.supersededMessageIds).toEqual([]);
+      const kept = await dbService.query(
+        `SELECT 1 FROM cluster_messages WHERE message_id = $1`,
+        [second.messageId],
+      );
+      expect(kept.rowCount).toBe(1);
+    });
+
+    it("should report paid DMs as never matched", async () => {
+      const paid = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+        { isPaidDm: true },
+      );
+
+      expect(paid.matchReason).toBe("PaidDm");
+    });
+
+    it("should return the top candidates with their scores", async () => {
+      const pricing = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      await ingest("ext-msg-2", "When is your next live stream?", "channel-2");
+      await ingest("ext-msg-3", "Do you ship merch to Canada?", "channel-3");
+
+      const res = await ingest(
+        "ext-msg-4",
+        "What is your collaboration rate?",
+        "channel-4",
+        { explainCandidates: 2 },
+      );
+
+      expect(res.candidates).toHaveLength(2);
+      expect(res.candidates[0]).toMatchObject({
+        messageId: pricing.messageId,
+        clusterId: pricing.clusterId,
+        trigramSimilarity: 1,
+      });
+      expect(res.candidates[0].cosineSimilarity).toBeCloseTo(1, 5);
+      expect(res.candidates[0].centroidSimilarity).toBeCloseTo(1, 5);
+      expect(res.candidates[1].trigramSimilarity).toBeLessThan(1);
+    });
+  });
+
+  describe("Text Normalization", () => {
+    it("should strip noise and fold look-alikes, limited by TEXT_NORMALIZATION", () => {
+      const normalizer = (steps?: string) =>
+        new TextNormalizer({
+          get: (key: string) =>
+            ({ TEXT_NORMALIZATION: steps })[key] as string | undefined,
+        } as unknown as ConfigService);
+
+      const text =
+        "@creator Ｈow much fоr a SHOUTOUT?!?! 🔥🔥 https://example.com/rates";
+      expect(normalizer().normalize(text)).toBe("how much for a shoutout?");
+      expect(normalizer("urls,mentions").normalize(text)).toBe(
+        "ｈow much fоr a shoutout?!?! 🔥🔥",
+      );
+      expect(normalizer("none").normalize("  Price  \n list ")).toBe(
+        "price list",
+      );
+      // Nothing left after normalizing: keep the raw text so it can match itself
+      expect(normalizer().normalize("🔥🔥")).toBe("🔥🔥");
+      expect(() => normalizer("urls,typos")).toThrow(
+        'Unknown TEXT_NORMALIZATION step "typos"',
+      );
+    });
+
+    it("should match and embed the normalized text but keep the original for display", async () => {
+      const first = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: "How much for a shoutout?",
+          channelId: "channel-1",
+        },
+      });
+      const noisy = "HOW MUCH FOR A SHOUTOUT??? 😍😍 @creator https://x.co/abc";
+      const second = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: noisy,
+          channelId: "channel-2",
+        },
+      });
+
+      expect(second.body.errors).toBeUndefined();
+      expect(second.body.data.ingestMessage).toMatchObject({
+        clusterId: first.body.data.ingestMessage.clusterId,
+        matchReason: "Trigram",
+        similarity: 1,
+      });
+
+      const stored = await dbService.query<{
+        text: string;
+        normalized_text: string;
+      }>(`SELECT text, normalized_text FROM messages WHERE id = $1`, [
+        second.body.data.ingestMessage.messageId,
+      ]);
+      expect(stored.rows[0]).toEqual({
+        text: noisy,
+        normalized_text: "how much for a shoutout?",
+      });
+    });
+  });
+
+  describe("PII Redaction", () => {
+    const TEXT =
+      "Email me at Jane.Ray@example.com or call +1 (555) 123-4567 about the collab";
+
+    const redaction = (detectors?: string) =>
+      new RedactionService(
+        {
+          get: (key: string) =>
+            ({ PII_REDACTION: detectors })[key] as string | undefined,
+        } as unknown as ConfigService,
+        [
+          new EmailPiiDetector(),
+          new CardNumberPiiDetector(),
+          new PhonePiiDetector(),
+          new StreetAddressPiiDetector(),
+        ],
+      );
+
+    it("should replace detected personal data with typed placeholders", () => {
+      expect(
+        redaction().redact(
+          "Card 4111 1111 1111 1111, ship to 221B Baker Street. Order 2024-10-19 #1234567, a@b.co and c@d.io",
+        ),
+      ).toEqual({
+        text: "Card <CARD_NUMBER>, ship to <ADDRESS> Order 2024-10-19 #1234567, <EMAIL> and <EMAIL>",
+        counts: [
+          { type: "EMAIL", count: 2 },
+          { type: "CARD_NUMBER", count: 1 },
+          { type: "ADDRESS", count: 1 },
+        ],
+      });
+      // Fails the Luhn check, and too long for a phone number
+      expect(redaction().redact("Ref 4111 1111 1111 1112").counts).toEqual([]);
+      expect(redaction("email").redact(TEXT).text).toBe(
+        "Email me at <EMAIL> or call +1 (555) 123-4567 about the collab",
+      );
+      expect(redaction("none").redact(TEXT).text).toBe(TEXT);
+      expect(() => redaction("email,ssn")).toThrow(
+        'Unknown PII_REDACTION detector "ssn"',
+      );
+    });
+
+    it("should redact only the free-text fields of a payload", () => {
+      const payload = {
+        id: "jane.ray@example.com-5551234567",
+        cid: "messaging:+15551234567",
+        text: TEXT,
+        user: {
+          id: "jane.ray@example.com",
+          image:
+            "https://cdn.example.com/u/jane.ray@example.com/5551234567.jpg",
+        },
+        attachments: [
+          {
+            title: "Reach jane.ray@example.com",
+            og_scrape_url: "https://example.com/?ref=jane.ray@example.com",
+          },
+        ],
+        quoted_message: { id: "5551234567", text: "call 555-123-4567" },
+      };
+
+      expect(redaction().redactPayload(payload)).toEqual({
+        ...payload,
+        text: "Email me at <EMAIL> or call <PHONE> about the collab",
+        attachments: [{ ...payload.attachments[0], title: "Reach <EMAIL>" }],
+        quoted_message: { id: "5551234567", text: "call <PHONE>" },
+      });
+    });
+
+    it("should embed redacted text and keep raw text unless the creator opts out", async () => {
+      const kept = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: TEXT,
+          channelId: "channel-1",
+        },
+      });
+      expect(kept.body.errors).toBeUndefined();
+      expect(kept.body.data.ingestMessage.redactions).toEqual([
+        { type: "EMAIL", count: 1 },
+        { type: "PHONE", count: 1 },
+      ]);
+
+      await gql(
+        `mutation Update($input: UpdateCreatorSettingsInput!) {
+          updateCreatorSettings(input: $input) { retainRawText }
+        }`,
+        { input: { creatorId: CREATOR_ID, retainRawText: false } },
+      );
+      const input = {
+        creatorId: CREATOR_ID,
+        messageId: "ext-msg-2",
+        text: "Reach me on jane@example.com",
+        channelId: "channel-2",
+        rawPayload: {
+          text: "Reach me on jane@example.com",
+          user: { image: "https://example.com/jane.jpg" },
+        },
+      };
+      await gql(INGEST, { input });
+      // Redelivery compares against the stored, redacted text
+      const redelivered = await gql(INGEST, { input });
+      expect(redelivered.body.data.ingestMessage.outcome).toBe("Duplicate");
+
+      const stored = await dbService.query<{
+        external_message_id: string;
+        text: string;
+        normalized_text: string;
+        raw_payload: Record<string, unknown> | null;
+      }>(
+        `SELECT external_message_id, text, normalized_text, raw_payload
+         FROM messages
+         WHERE creator_id = $1
+         ORDER BY external_message_id`,
+        [CREATOR_ID],
+      );
+      expect(stored.rows).toEqual([
+        {
+          external_message_id: "ext-msg-1",
+          text: TEXT,
+          normalized_text:
+            "email me at <email> or call <phone> about the collab",
+          raw_payload: null,
+        },
+        {
+          external_message_id: "ext-msg-2",
+          text: "Reach me on <EMAIL>",
+          normalized_text: "reach me on <email>",
+          raw_payload: {
+            text: "Reach me on <EMAIL>",
+            user: { image: "https://example.com/jane.jpg" },
+          },
+        },
+      ]);
+
+      const audit = await gql(
+        `query Audit($creatorId: ID!) {
+          redactionCounts(creatorId: $creatorId) { type count }
+        }`,
+        { creatorId: CREATOR_ID },
+      );
+      expect(audit.body.errors).toBeUndefined();
+      expect(audit.body.data.redactionCounts).toEqual([
+        { type: "EMAIL", count: 2 },
+        { type: "PHONE", count: 1 },
+      ]);
+    });
+  });
+
+  describe("Reply Need Classification", () => {
+    it("should tell greetings, thanks and reactions from real messages", async () => {
+      const classifier = new HeuristicReplyNeedClassifier();
+      const verdicts = await Promise.all(
+        [
+          "hi!",
+          "ok thank you so much",
+          "lol",
+          "😂😂",
+          "hi, how much for a shoutout",
+          "thanks for the info",
+          "hey?",
+        ].map((text) => classifier.classify(text)),
+      );
+
+      expect(verdicts).toEqual([
+        { needsReply: false, label: "greeting" },
+        { needsReply: false, label: "acknowledgement" },
+        { needsReply: false, label: "reaction" },
+        { needsReply: false, label: "reaction" },
+        { needsReply: true },
+        { needsReply: true },
+        { needsReply: true },
+      ]);
+    });
+
+    it("should read the verdict of the external tagging service", async () => {
+      const fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ needsReply: false, label: "spam" })),
+        )
+        .mockResolvedValueOnce(new Response(JSON.stringify({ tags: [] })));
+      try {
+        const classifier = new HttpReplyNeedClassifier(
+          "http://tagger.test/classify",
+          1000,
+        );
+
+        await expect(classifier.classify("follow me back")).resolves.toEqual({
+          needsReply: false,
+          label: "spam",
+        });
+        expect(JSON.parse(fetchSpy.mock.calls[0][1]!.body as string)).toEqual({
+          text: "follow me back",
+        });
+        await expect(classifier.classify("hi")).rejects.toThrow(
+          "Reply need classifier returned no needsReply flag",
+        );
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("should store messages that need no reply without clustering them", async () => {
+      const question = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: "How much do you charge for a collaboration?",
+          channelId: "channel-1",
+        },
+      });
+      expect(question.body.data.ingestMessage.replyNeed).toEqual({
+        needsReply: true,
+        label: null,
+        classifier: "heuristic",
+      });
+
+      const thanks = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "Thanks!!",
+          channelId: "channel-1",
+        },
+      });
+      expect(thanks.body.errors).toBeUndefined();
+      expect(thanks.body.data.ingestMessage).toMatchObject({
+        clusterId: null,
+        // The question is still waiting for its answer
+        supersededMessageIds: [],
+        replyNeed: {
+          needsReply: false,
+          label: "acknowledgement",
+          classifier: "heuristic",
+        },
+      });
+
+      // A matching thanks from another fan joins nothing either
+      const other = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-3",
+          text: "thanks",
+          channelId: "channel-2",
+        },
+      });
+      expect(other.body.data.ingestMessage.clusterId).toBeNull();
+
+      const stored = await dbService.query<{
+        external_message_id: string;
+        needs_reply: boolean;
+        embedding: string | null;
+        cluster_id: string | null;
+      }>(
+        `SELECT m.external_message_id, m.needs_reply, m.embedding::text AS embedding, cm.cluster_id
+         FROM messages m
+         LEFT JOIN cluster_messages cm ON cm.message_id = m.id
+         WHERE m.creator_id = $1
+         ORDER BY m.external_message_id`,
+        [CREATOR_ID],
+      );
+      expect(stored.rows).toEqual([
+        expect.objectContaining({
+          external_message_id: "ext-msg-1",
+          needs_reply: true,
+          cluster_id: question.body.data.ingestMessage.clusterId,
+        }),
+        {
+          external_message_id: "ext-msg-2",
+          needs_reply: false,
+          embedding: null,
+          cluster_id: null,
+        },
+        {
+          external_message_id: "ext-msg-3",
+          needs_reply: false,
+          embedding: null,
+          cluster_id: null,
+        },
+      ]);
+    });
+
+    it("should classify before the ingest transaction locks the message", async () => {
+      const first = await ingest("ext-msg-1", "hi", "channel-1");
+      const classifier = app.get<ReplyNeedClassifier>(REPLY_NEED_CLASSIFIER);
+      const classify = classifier.classify.bind(classifier);
+      const spy = jest
+        .spyOn(classifier, "classify")
+        .mockImplementation(async (text) => {
+          // Would wait forever if the edit already held the row lock
+          await dbService.query(
+            `UPDATE messages SET visitor_username = 'Jane' WHERE id = $1`,
+            [first.messageId],
+          );
+          return classify(text);
+        });
+      try {
+        const edited = await ingest(
+          "ext-msg-1",
+          "How much for a shoutout?",
+          "channel-1",
+        );
+        expect(edited.replyNeed.needsReply).toBe(true);
+
+        // A batch classifies each distinct text once
+        spy.mockClear();
+        await app.get(MessagesService).ingestMessages(
+          ["thanks", "thanks", "What is your rate?"].map((text, index) => ({
+            creatorId: CREATOR_ID,
+            messageId: `ext-msg-${index + 2}`,
+            text,
+            channelId: `channel-${index + 2}`,
+          })),
+        );
+        expect(spy).toHaveBeenCalledTimes(2);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
+
+  describe("Ingest Preview", () => {
+    const PREVIEW = `query Preview($input: IngestMessageInput!, $settings: PreviewSettingsInput) {
+      previewIngest(input: $input, settings: $settings) {
+        clusterId
+        matchReason
+        supersededMessageIds
+        candidates { messageId trigramSimilarity }
+      }
+    }`;
+
+    let first: { messageId: string; clusterId: string };
+
+    beforeEach(async () => {
+      const res = await gql(
+        `mutation Ingest($input: IngestMessageInput!) {
+          ingestMessage(input: $input) { messageId clusterId }
+        }`,
+        {
+          input: {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-1",
+            text: "What is your collaboration rate?",
+            channelId: "channel-1",
+          },
+        },
+      );
+      first = res.body.data.ingestMessage;
+    });
+
+    const countMessages = async () => {
+      const res = await dbService.query(
+        `SELECT COUNT(*) as count FROM messages WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      return Number(res.rows[0].count);
+    };
+
+    it("should preview the cluster a message would join without writing", async () => {
+      const res = await gql(PREVIEW, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "What is your collaboration rate?",
+          channelId: "channel-2",
+        },
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.previewIngest.clusterId).toBe(first.clusterId);
+      expect(res.body.data.previewIngest.matchReason).toBe("Trigram");
+      expect(res.body.data.previewIngest.candidates[0]).toEqual({
+        messageId: first.messageId,
+        trigramSimilarity: 1,
+      });
+      expect(await countMessages()).toBe(1);
+    });
+
+    it("should preview supersedes without detaching anything", async () => {
+      const res = await gql(PREVIEW, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "When is your next live stream?",
+          channelId: "channel-1",
+        },
+      });
+
+      expect(res.body.data.previewIngest.supersededMessageIds).toEqual([
+        first.messageId,
+      ]);
+
+      const membership = await dbService.query(
+        `SELECT cluster_id FROM cluster_messages WHERE message_id = $1`,
+        [first.messageId],
+      );
+      expect(membership.rows[0].cluster_id).toBe(first.clusterId);
+    });
+
+    it("should preview with thresholds the creator has not saved", async () => {
+      const input = {
+        creatorId: CREATOR_ID,
+        messageId: "ext-msg-2",
+        text: "What is your rate for a collaboration?",
+        channelId: "channel-2",
+      };
+
+      const current = await gql(PREVIEW, { input });
+      expect(current.body.data.previewIngest.matchReason).toBe("NewCluster");
+
+      const looser = await gql(PREVIEW, {
+        input,
+        settings: { trigramThreshold: 0.3 },
+      });
+      expect(looser.body.data.previewIngest.matchReason).toBe("Trigram");
+      expect(looser.body.data.previewIngest.clusterId).toBe(first.clusterId);
+      expect(await countMessages()).toBe(1);
+    });
+  });
+
+  describe("Threshold Replay", () => {
+    const REPLAY = `query Replay($creatorId: ID!, $settings: PreviewSettingsInput) {
+      replayClustering(creatorId: $creatorId, settings: $settings) {
+        trigramThreshold
+        messageCount
+        clusterCount
+        liveClusterCount
+        sizeDistribution { size count }
+        joinedPairs
+        splitPairs
+        changedMessages { messageId liveClusterMateIds replayClusterMateIds }
+      }
+    }`;
+
+    const ids: string[] = [];
+
+    beforeEach(async () => {
+      ids.length = 0;
+      const texts = [
+        "What is your collaboration rate?",
+        "What is your rate for a collaboration?",
+        "Do you ship merch to Canada?",
+      ];
+      for (const [index, text] of texts.entries()) {
+        const res = await gql(
+          `mutation Ingest($input: IngestMessageInput!) {
+            ingestMessage(input: $input) { messageId }
+          }`,
+          {
+            input: {
+              creatorId: CREATOR_ID,
+              messageId: `ext-msg-${index + 1}`,
+              text,
+              channelId: `channel-${index + 1}`,
+            },
+          },
+        );
+        ids.push(res.body.data.ingestMessage.messageId);
+      }
+    });
+
+    it("should reproduce the live clusters with the current thresholds", async () => {
+      const res = await gql(REPLAY, { creatorId: CREATOR_ID });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.replayClustering).toMatchObject({
+        trigramThreshold: 0.85,
+        messageCount: 3,
+        clusterCount: 3,
+        liveClusterCount: 3,
+        joinedPairs: 0,
+        splitPairs: 0,
+        changedMessages: [],
+      });
+    });
+
+    it("should diff candidate thresholds against live clusters", async () => {
+      const res = await gql(REPLAY, {
+        creatorId: CREATOR_ID,
+        settings: { trigramThreshold: 0.3 },
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      const replay = res.body.data.replayClustering;
+      expect(replay.clusterCount).toBe(2);
+      expect(replay.sizeDistribution).toEqual([
+        { size: 1, count: 1 },
+        { size: 2, count: 1 },
+      ]);
+      expect(replay.joinedPairs).toBe(1);
+      expect(replay.changedMessages).toEqual([
+        {
+          messageId: ids[0],
+          liveClusterMateIds: [],
+          replayClusterMateIds: [ids[1]],
+        },
+        {
+          messageId: ids[1],
+          liveClusterMateIds: [],
+          replayClusterMateIds: [ids[0]],
+        },
+      ]);
+
+      // Live data and schemas are untouched
+      const clusters = await dbService.query(
+        `SELECT COUNT(*) as count FROM clusters WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      expect(Number(clusters.rows[0].count)).toBe(3);
+      const schemas = await dbService.query(
+        `SELECT COUNT(*) as count FROM information_schema.schemata
+         WHERE schema_name LIKE 'replay_%'`,
+      );
+      expect(Number(schemas.rows[0].count)).toBe(0);
+    });
   });
 
   describe("Cluster Queries", () => {
@@ -439,28 +1459,82 @@ describe("Similarity Buckets E2E", () => {
       expect(list.body.data.clusters.length).toBe(0);
     });
 
-    it("should action cluster and set status", async () => {
-      // First get the channel IDs from the cluster
-      const clusterDetail = await gql(
+    it("should pull externally replied channels out of their cluster", async () => {
+      const markReplied = `mutation MarkReplied($creatorId: ID!, $channelId: String!) {
+        markChannelReplied(creatorId: $creatorId, channelId: $channelId)
+      }`;
+
+      const res = await gql(markReplied, {
+        creatorId: CREATOR_ID,
+        channelId: "channel-2",
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.markChannelReplied).toBe(1);
+
+      const replied = await dbService.query(
+        `SELECT replied_at FROM messages WHERE id = $1`,
+        [messageId2],
+      );
+      expect(replied.rows[0].replied_at).not.toBeNull();
+
+      const detail = await gql(
         `query ClusterDetail($clusterId: ID!, $creatorId: String!) {
-          cluster(id: $clusterId, creatorId: $creatorId) { messages { channelId } }
+          cluster(id: $clusterId, creatorId: $creatorId) { channelCount messages { id } }
         }`,
         { clusterId, creatorId: CREATOR_ID },
       );
-      const channelIds = clusterDetail.body.data.cluster.messages.map(
-        (m: { channelId: string }) => m.channelId,
+      expect(detail.body.data.cluster.channelCount).toBe(1);
+      expect(detail.body.data.cluster.messages[0].id).toBe(messageId1);
+
+      // Replying to the last channel leaves the cluster empty, so it is deleted
+      await gql(markReplied, { creatorId: CREATOR_ID, channelId: "channel-1" });
+
+      const clusterCheck = await dbService.query(
+        `SELECT COUNT(*) as count FROM clusters WHERE id = $1`,
+        [clusterId],
       );
+      expect(Number(clusterCheck.rows[0].count)).toBe(0);
+    });
 
+    it("should leave messages sent after the external reply pending", async () => {
       const res = await gql(
-        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
-          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) {
-            id
-            status
-            responseText
-          }
+        `mutation MarkReplied($creatorId: ID!, $channelId: String!, $repliedAt: DateTime) {
+          markChannelReplied(creatorId: $creatorId, channelId: $channelId, repliedAt: $repliedAt)
         }`,
         {
-          clusterId,
+          creatorId: CREATOR_ID,
+          channelId: "channel-2",
+          repliedAt: "2000-01-01T00:00:00.000Z",
+        },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.markChannelReplied).toBe(0);
+    });
+
+    it("should action cluster and set status", async () => {
+      // First get the channel IDs from the cluster
+      const clusterDetail = await gql(
+        `query ClusterDetail($clusterId: ID!, $creatorId: String!) {
+          cluster(id: $clusterId, creatorId: $creatorId) { messages { channelId } }
+        }`,
+        { clusterId, creatorId: CREATOR_ID },
+      );
+      const channelIds = clusterDetail.body.data.cluster.messages.map(
+        (m: { channelId: string }) => m.channelId,
+      );
+
+      const res = await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) {
+            id
+            status
+            responseText
+          }
+        }`,
+        {
+          clusterId,
           response: "Thanks for reaching out! My rate is $500.",
           channelIds,
         },
@@ -485,6 +1559,69 @@ describe("Similarity Buckets E2E", () => {
       expect(detail.body.errors[0].message).toContain("Cluster not found");
     });
 
+    it("should only reply to the selected channels on partial action", async () => {
+      const res = await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) {
+            id
+            creatorId
+            status
+            responseText
+            channelCount
+            messages { id channelId }
+          }
+        }`,
+        {
+          clusterId,
+          response: "My rate is $500.",
+          channelIds: ["channel-1"],
+        },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      const cluster = res.body.data.actionCluster;
+      expect(cluster.id).toBe(clusterId);
+      expect(cluster.creatorId).toBe(CREATOR_ID);
+      expect(cluster.status).toBe("Open");
+      expect(cluster.responseText).toBe("My rate is $500.");
+      expect(cluster.channelCount).toBe(1);
+      expect(cluster.messages).toEqual([
+        { id: messageId2, channelId: "channel-2" },
+      ]);
+
+      // Only the selected channel's message was marked as replied
+      const messagesCheck = await dbService.query<{ id: string }>(
+        `SELECT id FROM messages WHERE id = ANY($1) AND replied_at IS NOT NULL`,
+        [[messageId1, messageId2]],
+      );
+      expect(messagesCheck.rows.map((r) => r.id)).toEqual([messageId1]);
+    });
+
+    it("should reject an action for channels outside the cluster", async () => {
+      const res = await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) { id }
+        }`,
+        {
+          clusterId,
+          response: "My rate is $500.",
+          channelIds: ["channel-unknown"],
+        },
+      );
+
+      expect(res.body.errors).toBeDefined();
+      expect(res.body.errors[0].message).toContain(
+        "None of the selected channels are in this cluster",
+      );
+
+      // Nothing changed, including the template table
+      const templates = await dbService.query(
+        `SELECT COUNT(*) as count FROM response_templates WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      expect(Number(templates.rows[0].count)).toBe(0);
+    });
+
     it("should filter clusters by status", async () => {
       // Get channel IDs first
       const clusterDetail = await gql(
@@ -552,13 +1689,22 @@ describe("Similarity Buckets E2E", () => {
         { clusterId, response: "Test response", channelIds },
       );
 
-      // Verify messages were deleted
+      // Verify messages were kept, marked as replied
       const messagesCheck = await dbService.query(
-        `SELECT COUNT(*) as count FROM messages WHERE id = ANY($1)`,
+        `SELECT COUNT(*) as count FROM messages WHERE id = ANY($1) AND replied_at IS NULL`,
         [messageIds],
       );
       expect(Number(messagesCheck.rows[0].count)).toBe(0);
 
+      // A redelivery is a duplicate, not a new message to answer
+      const redelivered = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      expect(redelivered.outcome).toBe("Duplicate");
+      expect(messageIds).toContain(redelivered.messageId);
+
       // Verify cluster was deleted
       const clusterCheck = await dbService.query(
         `SELECT COUNT(*) as count FROM clusters WHERE id = $1`,
@@ -806,12 +1952,12 @@ describe("Similarity Buckets E2E", () => {
       expect(deleteResult.body.errors).toBeUndefined();
       expect(deleteResult.body.data.deleteCluster).toBe(true);
 
-      // Verify messages were deleted
+      // Verify messages were dismissed, not deleted
       const messagesCheck = await dbService.query(
-        `SELECT COUNT(*) as count FROM messages WHERE id = ANY($1)`,
+        `SELECT COUNT(*) as count FROM messages WHERE id = ANY($1) AND replied_at IS NOT NULL`,
         [messageIds],
       );
-      expect(Number(messagesCheck.rows[0].count)).toBe(0);
+      expect(Number(messagesCheck.rows[0].count)).toBe(messageIds.length);
 
       // Verify cluster was deleted
       const clusterCheck = await dbService.query(
@@ -829,6 +1975,1652 @@ describe("Similarity Buckets E2E", () => {
     });
   });
 
+  describe("Cluster Merge", () => {
+    const OTHER_CREATOR_ID = "00000000-0000-4000-a000-000000000002";
+    const MERGE = `mutation Merge($targetId: ID!, $sourceIds: [ID!]!) {
+      mergeClusters(targetId: $targetId, sourceIds: $sourceIds) {
+        id
+        channelCount
+        messages { channelId }
+      }
+    }`;
+
+    afterEach(async () => {
+      await dbService.query(`DELETE FROM clusters WHERE creator_id = $1`, [
+        OTHER_CREATOR_ID,
+      ]);
+      await dbService.query(`DELETE FROM messages WHERE creator_id = $1`, [
+        OTHER_CREATOR_ID,
+      ]);
+    });
+
+    it("should move all messages into the target and delete the sources", async () => {
+      const target = await ingest(
+        "ext-msg-1",
+        "How much for a shoutout?",
+        "channel-1",
+      );
+      const source = await ingest("ext-msg-2", "shoutout price??", "channel-2");
+      expect(source.clusterId).not.toBe(target.clusterId);
+
+      const res = await gql(MERGE, {
+        targetId: target.clusterId,
+        sourceIds: [source.clusterId],
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.mergeClusters.id).toBe(target.clusterId);
+      expect(res.body.data.mergeClusters.channelCount).toBe(2);
+
+      const sourceCheck = await dbService.query(
+        `SELECT COUNT(*) as count FROM clusters WHERE id = $1`,
+        [source.clusterId],
+      );
+      expect(Number(sourceCheck.rows[0].count)).toBe(0);
+    });
+
+    it("should refuse to merge clusters holding the same channel", async () => {
+      const target = await ingest(
+        "ext-msg-1",
+        "How much for a shoutout?",
+        "channel-1",
+      );
+      const source = await ingest("ext-msg-2", "shoutout price??", "channel-2");
+
+      // Older message from channel-2 left in the target cluster
+      const older = await dbService.query<{ id: string }>(
+        `INSERT INTO messages (external_message_id, creator_id, channel_id, text, created_at)
+         VALUES ('ext-msg-0', $1, 'channel-2', 'hey there', now() - interval '1 day')
+         RETURNING id`,
+        [CREATOR_ID],
+      );
+      await dbService.query(
+        `INSERT INTO cluster_messages (cluster_id, message_id) VALUES ($1, $2)`,
+        [target.clusterId, older.rows[0].id],
+      );
+
+      const res = await gql(MERGE, {
+        targetId: target.clusterId,
+        sourceIds: [source.clusterId],
+      });
+
+      expect(res.body.errors[0].message).toBe(
+        "Cannot merge clusters that hold messages from the same channel (channel-2)",
+      );
+      // Nothing was detached or deleted
+      const kept = await dbService.query<{ cluster_id: string }>(
+        `SELECT cluster_id FROM cluster_messages WHERE message_id = ANY($1)
+         ORDER BY cluster_id = $2 DESC`,
+        [[older.rows[0].id, source.messageId], target.clusterId],
+      );
+      expect(kept.rows.map((row) => row.cluster_id)).toEqual([
+        target.clusterId,
+        source.clusterId,
+      ]);
+    });
+
+    it("should refuse to merge clusters from different creators", async () => {
+      const target = await ingest(
+        "ext-msg-1",
+        "How much for a shoutout?",
+        "channel-1",
+      );
+      const other = await ingest(
+        "ext-msg-1",
+        "How much for a shoutout?",
+        "channel-9",
+        { creatorId: OTHER_CREATOR_ID },
+      );
+
+      const res = await gql(MERGE, {
+        targetId: target.clusterId,
+        sourceIds: [other.clusterId],
+      });
+
+      expect(res.body.errors).toBeDefined();
+      expect(res.body.errors[0].message).toContain("different creators");
+
+      const otherCheck = await dbService.query(
+        `SELECT COUNT(*) as count FROM cluster_messages WHERE cluster_id = $1`,
+        [other.clusterId],
+      );
+      expect(Number(otherCheck.rows[0].count)).toBe(1);
+    });
+  });
+
+  describe("Cluster Regrouping", () => {
+    const clusterExists = async (clusterId: string) => {
+      const res = await dbService.query(
+        `SELECT COUNT(*) as count FROM clusters WHERE id = $1`,
+        [clusterId],
+      );
+      return Number(res.rows[0].count) === 1;
+    };
+
+    it("should move a message into another cluster", async () => {
+      const pricing1 = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const pricing2 = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+      const stray = await ingest(
+        "ext-msg-3",
+        "How much do you charge for a brand deal?",
+        "channel-3",
+      );
+      expect(stray.clusterId).not.toBe(pricing1.clusterId);
+
+      const res = await gql(
+        `mutation Move($messageId: ID!, $targetClusterId: ID!) {
+          moveClusterMessage(messageId: $messageId, targetClusterId: $targetClusterId) {
+            id
+            channelCount
+          }
+        }`,
+        { messageId: stray.messageId, targetClusterId: pricing2.clusterId },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.moveClusterMessage.id).toBe(pricing1.clusterId);
+      expect(res.body.data.moveClusterMessage.channelCount).toBe(3);
+
+      // The stray message's old cluster was left empty
+      expect(await clusterExists(stray.clusterId)).toBe(false);
+    });
+
+    it("should refuse to move a message next to one from the same channel", async () => {
+      const target = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const stray = await ingest(
+        "ext-msg-2",
+        "How much do you charge for a brand deal?",
+        "channel-2",
+      );
+      // Older message from channel-2 left in the target cluster
+      const older = await dbService.query<{ id: string }>(
+        `INSERT INTO messages (external_message_id, creator_id, channel_id, text, created_at)
+         VALUES ('ext-msg-0', $1, 'channel-2', 'hey there', now() - interval '1 day')
+         RETURNING id`,
+        [CREATOR_ID],
+      );
+      await dbService.query(
+        `INSERT INTO cluster_messages (cluster_id, message_id) VALUES ($1, $2)`,
+        [target.clusterId, older.rows[0].id],
+      );
+
+      const res = await gql(
+        `mutation Move($messageId: ID!, $targetClusterId: ID!) {
+          moveClusterMessage(messageId: $messageId, targetClusterId: $targetClusterId) { id }
+        }`,
+        { messageId: stray.messageId, targetClusterId: target.clusterId },
+      );
+
+      expect(res.body.errors[0].message).toBe(
+        "Target cluster already holds a message from channel channel-2",
+      );
+      // Both messages stay where they were
+      expect(await clusterExists(stray.clusterId)).toBe(true);
+      const olderCluster = await dbService.query<{ cluster_id: string }>(
+        `SELECT cluster_id FROM cluster_messages WHERE message_id = $1`,
+        [older.rows[0].id],
+      );
+      expect(olderCluster.rows[0].cluster_id).toBe(target.clusterId);
+    });
+
+    it("should move a detached message back into a cluster", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const second = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+
+      await gql(
+        `mutation RemoveMessage($clusterId: ID!, $messageId: ID!) {
+          removeClusterMessage(clusterId: $clusterId, messageId: $messageId) { id }
+        }`,
+        { clusterId: first.clusterId, messageId: second.messageId },
+      );
+
+      const res = await gql(
+        `mutation Move($messageId: ID!, $targetClusterId: ID!) {
+          moveClusterMessage(messageId: $messageId, targetClusterId: $targetClusterId) {
+            channelCount
+          }
+        }`,
+        { messageId: second.messageId, targetClusterId: first.clusterId },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.moveClusterMessage.channelCount).toBe(2);
+    });
+
+    it("should refuse to move messages the pipeline would not cluster", async () => {
+      const target = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const inserted = await dbService.query<{ id: string }>(
+        `INSERT INTO messages (external_message_id, creator_id, channel_id, text, replied_at, is_paid_dm, needs_reply)
+         VALUES
+           ('ext-msg-2', $1, 'channel-2', 'What is your rate?', now(), false, true),
+           ('ext-msg-3', $1, 'channel-3', 'What is your rate?', NULL, true, true),
+           ('ext-msg-4', $1, 'channel-4', 'thanks!', NULL, false, false)
+         RETURNING id`,
+        [CREATOR_ID],
+      );
+
+      const move = (messageId: string) =>
+        gql(
+          `mutation Move($messageId: ID!, $targetClusterId: ID!) {
+            moveClusterMessage(messageId: $messageId, targetClusterId: $targetClusterId) { id }
+          }`,
+          { messageId, targetClusterId: target.clusterId },
+        );
+
+      const [replied, paid, noReply] = inserted.rows.map((row) => row.id);
+      expect((await move(replied)).body.errors[0].message).toBe(
+        "Replied messages and paid DMs cannot be clustered",
+      );
+      expect((await move(paid)).body.errors[0].message).toBe(
+        "Replied messages and paid DMs cannot be clustered",
+      );
+      expect((await move(noReply)).body.errors[0].message).toBe(
+        "Messages that need no reply are not clustered",
+      );
+
+      const members = await dbService.query(
+        `SELECT message_id FROM cluster_messages WHERE cluster_id = $1`,
+        [target.clusterId],
+      );
+      expect(members.rows).toHaveLength(1);
+    });
+
+    it("should split selected messages into a new cluster", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const second = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+      const third = await ingest(
+        "ext-msg-3",
+        "What is your collaboration rate?",
+        "channel-3",
+      );
+
+      const res = await gql(
+        `mutation Split($clusterId: ID!, $messageIds: [ID!]!) {
+          splitClusterMessages(clusterId: $clusterId, messageIds: $messageIds) {
+            id
+            creatorId
+            messages { id }
+          }
+        }`,
+        {
+          clusterId: first.clusterId,
+          messageIds: [second.messageId, third.messageId],
+        },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      const split = res.body.data.splitClusterMessages;
+      expect(split.id).not.toBe(first.clusterId);
+      expect(split.creatorId).toBe(CREATOR_ID);
+      expect(split.messages.map((m: { id: string }) => m.id).sort()).toEqual(
+        [second.messageId, third.messageId].sort(),
+      );
+
+      const original = await dbService.query<{ message_id: string }>(
+        `SELECT message_id FROM cluster_messages WHERE cluster_id = $1`,
+        [first.clusterId],
+      );
+      expect(original.rows.map((r) => r.message_id)).toEqual([first.messageId]);
+    });
+
+    it("should delete the original cluster when every message is split off", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+
+      const res = await gql(
+        `mutation Split($clusterId: ID!, $messageIds: [ID!]!) {
+          splitClusterMessages(clusterId: $clusterId, messageIds: $messageIds) { id }
+        }`,
+        { clusterId: first.clusterId, messageIds: [first.messageId] },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(await clusterExists(first.clusterId)).toBe(false);
+      expect(await clusterExists(res.body.data.splitClusterMessages.id)).toBe(
+        true,
+      );
+    });
+
+    it("should reject a split with messages from another cluster", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const other = await ingest(
+        "ext-msg-2",
+        "When is your next live stream?",
+        "channel-2",
+      );
+
+      const res = await gql(
+        `mutation Split($clusterId: ID!, $messageIds: [ID!]!) {
+          splitClusterMessages(clusterId: $clusterId, messageIds: $messageIds) { id }
+        }`,
+        { clusterId: first.clusterId, messageIds: [other.messageId] },
+      );
+
+      expect(res.body.errors).toBeDefined();
+      expect(res.body.errors[0].message).toContain(
+        "Message not found in cluster",
+      );
+      expect(await clusterExists(other.clusterId)).toBe(true);
+    });
+  });
+
+  describe("Re-clustering", () => {
+    const REMOVE = `mutation RemoveMessage($clusterId: ID!, $messageId: ID!) {
+      removeClusterMessage(clusterId: $clusterId, messageId: $messageId) { id }
+    }`;
+    const RECLUSTER = `mutation Recluster($messageId: ID!) {
+      reclusterMessage(messageId: $messageId) {
+        messageId
+        clusterId
+        matchedMessageId
+        similarity
+      }
+    }`;
+
+    it("should put a removed message back into a matching cluster", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const second = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+      await gql(REMOVE, {
+        clusterId: first.clusterId,
+        messageId: second.messageId,
+      });
+
+      const res = await gql(RECLUSTER, { messageId: second.messageId });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.reclusterMessage.clusterId).toBe(first.clusterId);
+      expect(res.body.data.reclusterMessage.matchedMessageId).toBe(
+        first.messageId,
+      );
+    });
+
+    it("should re-cluster a superseded message into another cluster", async () => {
+      const pricing = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+
+      // channel-1 asks something else, superseding its pricing question
+      const followUp = await ingest(
+        "ext-msg-3",
+        "When is your next live stream?",
+        "channel-1",
+      );
+      expect(followUp.clusterId).not.toBe(pricing.clusterId);
+
+      const res = await gql(RECLUSTER, { messageId: pricing.messageId });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.reclusterMessage.clusterId).toBe(pricing.clusterId);
+
+      // channel-1 now has one message in each cluster
+      const channel1 = await dbService.query(
+        `SELECT COUNT(*) as count
+         FROM cluster_messages cm
+         JOIN messages m ON m.id = cm.message_id
+         WHERE m.creator_id = $1 AND m.channel_id = 'channel-1'`,
+        [CREATOR_ID],
+      );
+      expect(Number(channel1.rows[0].count)).toBe(2);
+    });
+
+    it("should leave a message detached when nothing matches", async () => {
+      const lone = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      await gql(REMOVE, {
+        clusterId: lone.clusterId,
+        messageId: lone.messageId,
+      });
+
+      const res = await gql(RECLUSTER, { messageId: lone.messageId });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.reclusterMessage.clusterId).toBeNull();
+    });
+
+    it("should reject re-clustering a message that is in a cluster", async () => {
+      const message = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+
+      const res = await gql(RECLUSTER, { messageId: message.messageId });
+
+      expect(res.body.errors).toBeDefined();
+      expect(res.body.errors[0].message).toContain(
+        "Message is already in a cluster",
+      );
+    });
+
+    it("should let detached messages of a creator form a cluster together", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const second = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+      await gql(REMOVE, {
+        clusterId: first.clusterId,
+        messageId: first.messageId,
+      });
+      await gql(REMOVE, {
+        clusterId: first.clusterId,
+        messageId: second.messageId,
+      });
+
+      const res = await gql(
+        `mutation ReclusterCreator($creatorId: ID!) {
+          reclusterCreatorMessages(creatorId: $creatorId) { messageId clusterId }
+        }`,
+        { creatorId: CREATOR_ID },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      // The first message pulls the second into a new cluster with it
+      const results = res.body.data.reclusterCreatorMessages;
+      expect(results).toHaveLength(1);
+      expect(results[0].messageId).toBe(first.messageId);
+
+      const members = await dbService.query<{ message_id: string }>(
+        `SELECT message_id FROM cluster_messages WHERE cluster_id = $1`,
+        [results[0].clusterId],
+      );
+      expect(members.rows.map((r) => r.message_id).sort()).toEqual(
+        [first.messageId, second.messageId].sort(),
+      );
+    });
+  });
+
+  describe("Centroid Matching", () => {
+    const centroidSimilarity = async (clusterId: string, messageId: string) => {
+      const res = await dbService.query<{ similarity: number }>(
+        `SELECT 1 - (c.centroid <=> m.embedding) AS similarity
+         FROM clusters c, messages m
+         WHERE c.id = $1 AND m.id = $2`,
+        [clusterId, messageId],
+      );
+      return Number(res.rows[0].similarity);
+    };
+
+    it("should keep the centroid at the mean of the cluster's members", async () => {
+      const pricing = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      const schedule = await ingest(
+        "ext-msg-2",
+        "When is your next live stream?",
+        "channel-2",
+      );
+      expect(
+        await centroidSimilarity(pricing.clusterId, pricing.messageId),
+      ).toBeCloseTo(1, 5);
+
+      await gql(
+        `mutation Merge($targetId: ID!, $sourceIds: [ID!]!) {
+          mergeClusters(targetId: $targetId, sourceIds: $sourceIds) { id }
+        }`,
+        { targetId: pricing.clusterId, sourceIds: [schedule.clusterId] },
+      );
+
+      // The mean of two different embeddings matches neither exactly
+      const toPricing = await centroidSimilarity(
+        pricing.clusterId,
+        pricing.messageId,
+      );
+      const toSchedule = await centroidSimilarity(
+        pricing.clusterId,
+        schedule.messageId,
+      );
+      expect(toPricing).toBeLessThan(0.99);
+      expect(toSchedule).toBeLessThan(0.99);
+
+      await gql(
+        `mutation RemoveMessage($clusterId: ID!, $messageId: ID!) {
+          removeClusterMessage(clusterId: $clusterId, messageId: $messageId) { id }
+        }`,
+        { clusterId: pricing.clusterId, messageId: schedule.messageId },
+      );
+
+      expect(
+        await centroidSimilarity(pricing.clusterId, pricing.messageId),
+      ).toBeCloseTo(1, 5);
+    });
+
+    it("should cluster a new message with a matching detached message", async () => {
+      const first = await ingest(
+        "ext-msg-1",
+        "What is your collaboration rate?",
+        "channel-1",
+      );
+      await gql(
+        `mutation RemoveMessage($clusterId: ID!, $messageId: ID!) {
+          removeClusterMessage(clusterId: $clusterId, messageId: $messageId) { id }
+        }`,
+        { clusterId: first.clusterId, messageId: first.messageId },
+      );
+
+      const second = await ingest(
+        "ext-msg-2",
+        "What is your collaboration rate?",
+        "channel-2",
+      );
+
+      expect(second.matchedMessageId).toBe(first.messageId);
+      const members = await dbService.query<{ message_id: string }>(
+        `SELECT message_id FROM cluster_messages WHERE cluster_id = $1`,
+        [second.clusterId],
+      );
+      expect(members.rows.map((r) => r.message_id).sort()).toEqual(
+        [first.messageId, second.messageId].sort(),
+      );
+    });
+
+    it("should refuse an unknown CLUSTER_MATCH_STRATEGY", async () => {
+      process.env.CLUSTER_MATCH_STRATEGY = "closest";
+      try {
+        const res = await gql(INGEST, {
+          input: {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-1",
+            text: "What is your collaboration rate?",
+            channelId: "channel-1",
+          },
+        });
+        expect(res.body.errors[0].message).toBe(
+          'Unknown CLUSTER_MATCH_STRATEGY "closest" (available: centroid, nearest_message)',
+        );
+      } finally {
+        delete process.env.CLUSTER_MATCH_STRATEGY;
+      }
+    });
+  });
+
+  describe("Clustering Evaluation", () => {
+    it("should score a partition against its labels", () => {
+      const perfect = evaluateClusters(["a", "a", "b"], ["x", "x", "y"]);
+      expect(perfect.pairwisePrecision).toBe(1);
+      expect(perfect.pairwiseRecall).toBe(1);
+      expect(perfect.adjustedRandIndex).toBe(1);
+
+      // One cluster holding everything: every true pair found, most predicted pairs wrong
+      const lumped = evaluateClusters(
+        ["a", "a", "b", "b"],
+        ["x", "x", "x", "x"],
+      );
+      expect(lumped.pairwiseRecall).toBe(1);
+      expect(lumped.pairwisePrecision).toBeCloseTo(2 / 6);
+      expect(lumped.purity).toBe(0.5);
+      expect(lumped.adjustedRandIndex).toBe(0);
+    });
+
+    it("should evaluate the labeled dataset and clean up after itself", async () => {
+      const dataset = loadDataset();
+      const metrics = await runEvaluation(app, dataset);
+
+      expect(metrics.messageCount).toBe(dataset.length);
+      expect(metrics.labelCount).toBe(4);
+      // Stub embeddings only match identical text, so clusters stay pure
+      expect(metrics.pairwisePrecision).toBeGreaterThanOrEqual(0.9);
+      for (const value of [
+        metrics.pairwiseRecall,
+        metrics.pairwiseF1,
+        metrics.purity,
+      ]) {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(1);
+      }
+
+      const leftover = await dbService.query(
+        `SELECT 1 FROM messages WHERE external_message_id LIKE 'eval-%'`,
+      );
+      expect(leftover.rows).toHaveLength(0);
+    });
+  });
+
+  describe("Embedding Providers", () => {
+    it("should record the provider next to each stored embedding", async () => {
+      const res = await gql(
+        `mutation Ingest($input: IngestMessageInput!) {
+          ingestMessage(input: $input) { messageId }
+        }`,
+        {
+          input: {
+            creatorId: CREATOR_ID,
+            messageId: "ext-msg-1",
+            text: "What is your collaboration rate?",
+            channelId: "channel-1",
+          },
+        },
+      );
+
+      const stored = await dbService.query<{ embedding_provider: string }>(
+        `SELECT embedding_provider FROM messages WHERE id = $1`,
+        [res.body.data.ingestMessage.messageId],
+      );
+      expect(stored.rows[0].embedding_provider).toBe("stub");
+    });
+
+    it("should embed paraphrases close together with the local provider", async () => {
+      const cosine = (a: number[], b: number[]) =>
+        a.reduce((sum, value, i) => sum + value * b[i], 0);
+      const [rate, reworded, stream] =
+        await new LocalEmbeddingProvider().embedMany(
+          [
+            "What is your collaboration rate?",
+            "What's your rate for collaborations?",
+            "When is your next live stream?",
+          ],
+          1536,
+        );
+
+      expect(cosine(rate, rate)).toBeCloseTo(1, 4);
+      expect(cosine(rate, reworded)).toBeGreaterThan(0.75);
+      expect(cosine(rate, stream)).toBeLessThan(0.3);
+    });
+
+    it("should truncate and renormalize oversized embeddings only when enabled", async () => {
+      const wide = {
+        name: "wide",
+        model: "wide-v1",
+        cacheable: false,
+        embedMany: async (texts: string[]) => texts.map(() => [3, 4, 12, 84]),
+      };
+      const withSettings = (settings: Record<string, string>) =>
+        new EmbeddingsService(
+          {
+            get: (key: string) =>
+              ({ EMBEDDING_PROVIDER: "wide", EMBEDDING_DIM: "2", ...settings })[
+                key
+              ],
+          } as unknown as ConfigService,
+          null as never,
+          [wide],
+        );
+
+      const [truncated] = await withSettings({
+        EMBEDDING_TRUNCATE: "true",
+      }).embedMany(["hello"]);
+      expect(truncated[0]).toBeCloseTo(0.6);
+      expect(truncated[1]).toBeCloseTo(0.8);
+
+      await expect(withSettings({}).embed("hello")).rejects.toThrow(
+        "wide returned a 4-dimensional embedding but EMBEDDING_DIM is 2",
+      );
+    });
+
+    it("should dedupe, cache, chunk and coalesce remote embedding calls", async () => {
+      const requests: string[][] = [];
+      const remote = {
+        name: "remote",
+        model: "remote-v1",
+        cacheable: true,
+        embedMany: async (texts: string[]) => {
+          requests.push(texts);
+          return texts.map((text) => [text.length, 1]);
+        },
+      };
+      const store = new Map<string, string>();
+      const cache = {
+        mget: async (keys: string[]) =>
+          keys.map((key) => store.get(key) ?? null),
+        setMany: async (entries: Array<{ key: string; value: string }>) =>
+          entries.forEach(({ key, value }) => store.set(key, value)),
+      };
+      const embeddings = new EmbeddingsService(
+        {
+          get: (key: string) =>
+            ({
+              EMBEDDING_PROVIDER: "remote",
+              EMBEDDING_DIM: "2",
+              EMBEDDING_BATCH_SIZE: "2",
+              EMBEDDING_COALESCE_MS: "5",
+            })[key],
+        } as unknown as ConfigService,
+        cache as unknown as CacheService,
+        [remote],
+      );
+
+      // Same normalized text is embedded once; misses go out two at a time
+      const vectors = await embeddings.embedMany(["Hi", "hi ", "Hello", "Hey"]);
+      expect(vectors).toEqual([
+        [2, 1],
+        [2, 1],
+        [5, 1],
+        [3, 1],
+      ]);
+      expect(requests).toEqual([["Hi", "Hello"], ["Hey"]]);
+
+      // Cache hits never reach the provider
+      await embeddings.embedMany(["HELLO", "hey"]);
+      expect(requests).toHaveLength(2);
+
+      // Concurrent embed calls share one request
+      const [first, second] = await Promise.all([
+        embeddings.embed("one"),
+        embeddings.embed("three"),
+      ]);
+      expect(first).toEqual([3, 1]);
+      expect(second).toEqual([5, 1]);
+      expect(requests).toHaveLength(3);
+      expect(requests[2]).toEqual(["one", "three"]);
+    });
+
+    it("should ask OpenAI for the configured dimensions", async () => {
+      const fetchSpy = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValue(
+          new Response(
+            JSON.stringify({ data: [{ embedding: [0.6, 0.8], index: 0 }] }),
+          ),
+        );
+      try {
+        await new OpenAIEmbeddingProvider({
+          name: "openai",
+          baseUrl: "https://api.openai.com/v1",
+          apiKey: "test-key",
+          requireApiKey: true,
+          model: "text-embedding-3-large",
+          sendDimensions: true,
+          timeoutMs: 10000,
+          baseUrlSetting: "OPENAI_BASE_URL",
+          apiKeySetting: "OPENAI_API_KEY",
+        }).embedMany(["hello"], 2);
+
+        const body = JSON.parse(fetchSpy.mock.calls[0][1]!.body as string);
+        expect(body).toEqual({
+          input: ["hello"],
+          model: "text-embedding-3-large",
+          dimensions: 2,
+        });
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("should refuse to start when EMBEDDING_DIM disagrees with the vector columns", async () => {
+      await expect(
+        new EmbeddingDimensionCheck(dbService, {
+          dimension: 768,
+        } as EmbeddingsService).onModuleInit(),
+      ).rejects.toThrow(
+        /EMBEDDING_DIM is 768 but .*messages\.embedding is vector\(1536\)/,
+      );
+      await expect(
+        new EmbeddingDimensionCheck(dbService, {
+          dimension: 1536,
+        } as EmbeddingsService).onModuleInit(),
+      ).resolves.toBeUndefined();
+    });
+
+    it("should reject an unregistered provider name", () => {
+      const config = {
+        get: () => "missing",
+      } as unknown as ConfigService;
+
+      expect(
+        () =>
+          new EmbeddingsService(config, null as never, [
+            new StubEmbeddingProvider(),
+          ]),
+      ).toThrow('Unknown EMBEDDING_PROVIDER "missing" (available: stub)');
+    });
+  });
+
+  describe("Embedding Cache", () => {
+    it("should serve repeated keys from memory without Redis and evict the least recently used", async () => {
+      const cache = new CacheService({
+        get: (key: string) =>
+          ({ CACHE_MEMORY_MAX_ENTRIES: "2" })[key] as string | undefined,
+      } as unknown as ConfigService);
+
+      await cache.setMany([
+        { key: "a", value: "1" },
+        { key: "b", value: "2" },
+      ]);
+      expect(await cache.get("a")).toBe("1");
+      // "b" is now the least recently used entry
+      await cache.set("c", "3", 60);
+      expect(await cache.mget(["a", "b", "c"])).toEqual(["1", null, "3"]);
+
+      expect(cache.getStats()).toEqual({
+        memoryHits: 3,
+        redisHits: 0,
+        misses: 1,
+        hitRate: 0.75,
+        evictions: 1,
+        memoryEntries: 2,
+        memoryMaxEntries: 2,
+        redisConnected: false,
+      });
+    });
+
+    it("should keep Redis hits in memory only as long as Redis does", async () => {
+      const cache = new CacheService({
+        get: (key: string) =>
+          ({ CACHE_MEMORY_MAX_ENTRIES: "10" })[key] as string | undefined,
+      } as unknown as ConfigService);
+      const redis = new Map([
+        ["short", "1"],
+        ["forever", "2"],
+      ]);
+      const ttls: Record<string, number> = { short: 20, forever: -1 };
+      // Answers MGET and PTTL like Redis would
+      const client = {
+        mGet: async (keys: string[]) =>
+          keys.map((key) => redis.get(key) ?? null),
+        pTTL: async (key: string) => (redis.has(key) ? ttls[key] : -2),
+      };
+      Object.assign(cache, { client, isConnected: true });
+
+      expect(await cache.mget(["short", "forever"])).toEqual(["1", "2"]);
+      redis.clear();
+      // Served from memory until the Redis TTL runs out
+      expect(await cache.mget(["short", "forever"])).toEqual(["1", "2"]);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(await cache.mget(["short", "forever"])).toEqual([null, "2"]);
+    });
+
+    it("should expose cache counters over GraphQL", async () => {
+      const res = await gql(`query {
+        cacheStats { memoryHits redisHits misses hitRate evictions redisConnected }
+      }`);
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.cacheStats).toMatchObject({
+        redisConnected: false,
+        hitRate: expect.any(Number),
+      });
+    });
+  });
+
+  describe("Embedding Model Versioning", () => {
+    const TEXT = "What is your collaboration rate?";
+    const JOB_FIELDS = `id targetModel status totalMessages processedMessages
+      totalTemplates processedTemplates progress`;
+
+    // Pretend the message was embedded by a model that is no longer active
+    const retireEmbedding = async (messageId: string, clusterId: string) => {
+      await dbService.query(
+        `UPDATE messages SET embedding_model = 'retired-model' WHERE id = $1`,
+        [messageId],
+      );
+      await dbService.query(
+        `UPDATE clusters SET centroid_model = 'retired-model' WHERE id = $1`,
+        [clusterId],
+      );
+    };
+
+    beforeEach(async () => {
+      await dbService.query(`DELETE FROM reembed_jobs`);
+      // Leave identical texts to the vector path
+      await gql(
+        `mutation Update($input: UpdateCreatorSettingsInput!) {
+          updateCreatorSettings(input: $input) { creatorId }
+        }`,
+        { input: { creatorId: CREATOR_ID, trigramThreshold: 1 } },
+      );
+    });
+
+    it("should only compare embeddings of the active model", async () => {
+      const first = await ingest("ext-msg-1", TEXT, "channel-1");
+      const second = await ingest("ext-msg-2", TEXT, "channel-2");
+      expect(second.clusterId).toBe(first.clusterId);
+      expect(second.matchReason).toBe("Vector");
+
+      await retireEmbedding(first.messageId, first.clusterId);
+      await dbService.query(
+        `UPDATE messages SET embedding_model = 'retired-model' WHERE id = $1`,
+        [second.messageId],
+      );
+
+      // Identical text, but every stored vector is from another model
+      const third = await ingest("ext-msg-3", TEXT, "channel-3");
+      expect(third.clusterId).not.toBe(first.clusterId);
+      expect(third.matchReason).toBe("NewCluster");
+    });
+
+    it("should re-embed retired vectors in resumable batches", async () => {
+      const reembedding = app.get(ReembeddingService);
+      const first = await ingest("ext-msg-1", TEXT, "channel-1");
+      await retireEmbedding(first.messageId, first.clusterId);
+      // Stored before normalization existed
+      await dbService.query(
+        `UPDATE messages SET normalized_text = NULL WHERE id = $1`,
+        [first.messageId],
+      );
+      await dbService.query(
+        `INSERT INTO response_templates (
+          creator_id, question_text, question_embedding,
+          question_embedding_model, response_text
+        )
+        SELECT creator_id, text, embedding, embedding_model, 'Rates start at $500'
+        FROM messages WHERE id = $1`,
+        [first.messageId],
+      );
+      // A job left behind by an earlier model switch can never finish
+      const abandoned = await dbService.query<{ id: string }>(
+        `INSERT INTO reembed_jobs (target_model, total_messages, total_templates)
+         VALUES ('retired-model', 0, 0) RETURNING id`,
+      );
+
+      const started = await gql(`mutation { startReembed { ${JOB_FIELDS} } }`);
+      const job = started.body.data.startReembed;
+      expect(job).toMatchObject({
+        targetModel: "stub-sha256",
+        status: "Running",
+        totalMessages: 1,
+        processedMessages: 0,
+        totalTemplates: 1,
+        progress: 0,
+      });
+      const again = await gql(`mutation { startReembed { id } }`);
+      expect(again.body.data.startReembed.id).toBe(job.id);
+      const previous = await gql(
+        `query Job($id: ID!) { reembedJob(id: $id) { status } }`,
+        { id: abandoned.rows[0].id },
+      );
+      expect(previous.body.data.reembedJob.status).toBe("Failed");
+
+      // Messages first, then templates, then the job completes
+      expect(await reembedding.processNextBatch()).toBe(1);
+      const halfway = await gql(
+        `query Job($id: ID!) { reembedJob(id: $id) { ${JOB_FIELDS} } }`,
+        { id: job.id },
+      );
+      expect(halfway.body.data.reembedJob.progress).toBe(0.5);
+      expect(await reembedding.processNextBatch()).toBe(1);
+      expect(await reembedding.processNextBatch()).toBe(0);
+
+      const done = await gql(
+        `query Job($id: ID!) { reembedJob(id: $id) { ${JOB_FIELDS} } }`,
+        { id: job.id },
+      );
+      expect(done.body.data.reembedJob).toMatchObject({
+        status: "Completed",
+        processedMessages: 1,
+        processedTemplates: 1,
+        progress: 1,
+      });
+
+      const cluster = await dbService.query<{
+        centroid_model: string;
+        has_centroid: boolean;
+      }>(
+        `SELECT centroid_model, centroid IS NOT NULL AS has_centroid
+         FROM clusters WHERE id = $1`,
+        [first.clusterId],
+      );
+      expect(cluster.rows[0]).toEqual({
+        centroid_model: "stub-sha256",
+        has_centroid: true,
+      });
+      const template = await dbService.query<{ model: string }>(
+        `SELECT question_embedding_model AS model
+         FROM response_templates WHERE creator_id = $1`,
+        [CREATOR_ID],
+      );
+      expect(template.rows[0].model).toBe("stub-sha256");
+
+      // Embedded from the redacted, normalized text, as at ingest
+      const [expected] = await app
+        .get(EmbeddingsService)
+        .embedMany([app.get(MessagesService).matchText(TEXT)]);
+      const same = await dbService.query<{
+        message: boolean;
+        template: boolean;
+      }>(
+        `SELECT
+           (SELECT embedding = $2::vector FROM messages WHERE id = $1) AS message,
+           (SELECT bool_and(question_embedding = $2::vector)
+            FROM response_templates WHERE creator_id = $3) AS template`,
+        [first.messageId, toVectorLiteral(expected), CREATOR_ID],
+      );
+      expect(same.rows[0]).toEqual({ message: true, template: true });
+    });
+
+    it("should release rows while the provider embeds and skip rows edited meanwhile", async () => {
+      const reembedding = app.get(ReembeddingService);
+      const first = await ingest("ext-msg-1", TEXT, "channel-1");
+      await retireEmbedding(first.messageId, first.clusterId);
+
+      const embeddings = app.get(EmbeddingsService);
+      const { id } = (await gql(`mutation { startReembed { id } }`)).body.data
+        .startReembed;
+      const embedMany = embeddings.embedMany.bind(embeddings);
+      const slow = jest
+        .spyOn(embeddings, "embedMany")
+        .mockImplementationOnce(async (texts) => {
+          // Another worker waits for this batch to finish
+          expect(await reembedding.processNextBatch()).toBe(0);
+          // Would wait forever if the batch still held the row lock
+          await dbService.query(
+            `UPDATE messages SET normalized_text = 'what are your rates?' WHERE id = $1`,
+            [first.messageId],
+          );
+          return embedMany(texts);
+        });
+      try {
+        // Nothing written, so nothing counted
+        expect(await reembedding.processNextBatch()).toBe(0);
+      } finally {
+        slow.mockRestore();
+      }
+
+      const model = async () =>
+        (
+          await dbService.query<{ embedding_model: string }>(
+            `SELECT embedding_model FROM messages WHERE id = $1`,
+            [first.messageId],
+          )
+        ).rows[0].embedding_model;
+      // Embedded from the old text, so not written back
+      expect(await model()).toBe("retired-model");
+      const job = async () =>
+        (
+          await gql(
+            `query Job($id: ID!) { reembedJob(id: $id) { status processedMessages } }`,
+            { id },
+          )
+        ).body.data.reembedJob;
+      expect(await job()).toEqual({ status: "Running", processedMessages: 0 });
+
+      // Picked up again with its new text
+      expect(await reembedding.processNextBatch()).toBe(1);
+      expect(await model()).toBe("stub-sha256");
+      expect(await job()).toEqual({ status: "Running", processedMessages: 1 });
+    });
+  });
+
+  describe("Async Ingest", () => {
+    const TEXT = "Do you ship internationally?";
+    const MESSAGE = `query Message($id: ID!) {
+      message(id: $id) { id clusterId clusteringStatus }
+    }`;
+
+    beforeEach(() => {
+      process.env.INGEST_MODE = "async";
+    });
+
+    afterEach(() => {
+      delete process.env.INGEST_MODE;
+    });
+
+    it("should store the message and cluster it from the queue", async () => {
+      const first = await ingest("ext-msg-1", TEXT, "channel-1");
+      expect(first).toMatchObject({
+        clusterId: null,
+        matchReason: null,
+        outcome: "Created",
+        clusteringStatus: "Pending",
+      });
+      const second = await ingest("ext-msg-2", TEXT, "channel-2");
+      expect((await ingest("ext-msg-2", TEXT, "channel-2")).outcome).toBe(
+        "Duplicate",
+      );
+
+      const queued = await gql(MESSAGE, { id: first.messageId });
+      expect(queued.body.data.message).toEqual({
+        id: first.messageId,
+        clusterId: null,
+        clusteringStatus: "Pending",
+      });
+      const recluster = await gql(
+        `mutation Recluster($messageId: ID!) {
+          reclusterMessage(messageId: $messageId) { messageId }
+        }`,
+        { messageId: first.messageId },
+      );
+      expect(recluster.body.errors[0].message).toBe(
+        "Message is still queued for clustering",
+      );
+
+      const messages = app.get(MessagesService);
+      expect(await messages.processIngestQueue()).toBe(2);
+      expect(await messages.processIngestQueue()).toBe(0);
+
+      const placed = await gql(MESSAGE, { id: second.messageId });
+      expect(placed.body.data.message.clusteringStatus).toBe("Clustered");
+      const redelivered = await ingest("ext-msg-1", TEXT, "channel-1");
+      expect(redelivered).toMatchObject({
+        outcome: "Duplicate",
+        matchReason: "NewCluster",
+        clusteringStatus: "Clustered",
+      });
+      expect(placed.body.data.message.clusterId).toBe(redelivered.clusterId);
+    });
+  });
+
+  describe("Embedding Outages", () => {
+    it("should retry rate limits and open the circuit after repeated failures", async () => {
+      let calls = 0;
+      const flaky = {
+        name: "flaky",
+        model: "flaky-v1",
+        cacheable: false,
+        // Rate limited twice, then down for good
+        embedMany: async (texts: string[]) => {
+          calls += 1;
+          if (calls === 3) return texts.map(() => [0.6, 0.8]);
+          throw new EmbeddingRequestError("flaky embeddings error: 429", {
+            retryable: true,
+            retryAfterMs: 1,
+          });
+        },
+      };
+      const embeddings = new EmbeddingsService(
+        {
+          get: (key: string) =>
+            ({
+              EMBEDDING_PROVIDER: "flaky",
+              EMBEDDING_DIM: "2",
+              EMBEDDING_MAX_RETRIES: "2",
+              EMBEDDING_RETRY_BASE_MS: "1",
+              EMBEDDING_BREAKER_THRESHOLD: "2",
+              EMBEDDING_BREAKER_RESET_MS: "60000",
+            })[key],
+        } as unknown as ConfigService,
+        null as never,
+        [flaky],
+      );
+
+      expect(await embeddings.embed("hello")).toEqual([0.6, 0.8]);
+      expect(calls).toBe(3);
+
+      // Each call now runs out of retries; the second failure opens the circuit
+      for (let i = 0; i < 2; i += 1) {
+        await expect(embeddings.embed("hello")).rejects.toThrow(
+          EmbeddingUnavailableError,
+        );
+      }
+      expect(calls).toBe(9);
+      expect(embeddings.available).toBe(false);
+      await expect(embeddings.embed("hello")).rejects.toThrow("circuit open");
+      expect(calls).toBe(9);
+    });
+
+    it("should let a single trial call through while half-open", () => {
+      let now = 0;
+      const breaker = new CircuitBreaker(1, 1000, () => now);
+      breaker.recordFailure();
+      expect(breaker.allowRequest()).toBe(false);
+
+      now = 1000;
+      expect(breaker.state).toBe("half_open");
+      expect(breaker.allowRequest()).toBe(true);
+      // Refused until the trial settles
+      expect(breaker.allowRequest()).toBe(false);
+      breaker.recordFailure();
+      expect(breaker.state).toBe("open");
+
+      now = 2000;
+      expect(breaker.allowRequest()).toBe(true);
+      breaker.release();
+      expect(breaker.allowRequest()).toBe(true);
+      breaker.recordSuccess();
+      expect(breaker.state).toBe("closed");
+      expect(breaker.allowRequest()).toBe(true);
+      expect(breaker.allowRequest()).toBe(true);
+    });
+
+    it("should ingest without an embedding and re-cluster once it is back", async () => {
+      const text = "What is your collaboration rate?";
+      // Leave identical texts to the vector path
+      await gql(
+        `mutation Update($input: UpdateCreatorSettingsInput!) {
+          updateCreatorSettings(input: $input) { creatorId }
+        }`,
+        { input: { creatorId: CREATOR_ID, trigramThreshold: 1 } },
+      );
+
+      const first = await ingest("ext-msg-1", text, "channel-1");
+      expect(first.embeddingPending).toBe(false);
+
+      const outage = jest
+        .spyOn(app.get(EmbeddingsService), "embedMany")
+        .mockRejectedValue(new EmbeddingUnavailableError("stub is down"));
+      let second: Awaited<ReturnType<typeof ingest>>;
+      try {
+        second = await ingest("ext-msg-2", text, "channel-2");
+      } finally {
+        outage.mockRestore();
+      }
+      expect(second).toMatchObject({
+        matchReason: "NewCluster",
+        embeddingPending: true,
+      });
+      expect(second.clusterId).not.toBe(first.clusterId);
+
+      const pending = await dbService.query<{ pending: boolean }>(
+        `SELECT embedding IS NULL AND embedding_pending_since IS NOT NULL AS pending
+         FROM messages WHERE id = $1`,
+        [second.messageId],
+      );
+      expect(pending.rows[0].pending).toBe(true);
+
+      const messages = app.get(MessagesService);
+      expect(await messages.processPendingEmbeddings()).toBe(1);
+      expect(await messages.processPendingEmbeddings()).toBe(0);
+
+      const stored = await dbService.query<{
+        cluster_id: string;
+        embedded: boolean;
+      }>(
+        `SELECT cm.cluster_id,
+                m.embedding IS NOT NULL
+                  AND m.embedding_pending_since IS NULL AS embedded
+         FROM messages m
+         JOIN cluster_messages cm ON cm.message_id = m.id
+         WHERE m.id = $1`,
+        [second.messageId],
+      );
+      expect(stored.rows[0]).toEqual({
+        cluster_id: first.clusterId,
+        embedded: true,
+      });
+      const leftover = await dbService.query(
+        `SELECT 1 FROM clusters WHERE id = $1`,
+        [second.clusterId],
+      );
+      expect(leftover.rowCount).toBe(0);
+    });
+
+    it("should call the provider before locking the message", async () => {
+      const embeddings = app.get(EmbeddingsService);
+      const outage = jest
+        .spyOn(embeddings, "embedMany")
+        .mockRejectedValue(new EmbeddingUnavailableError("stub is down"));
+      let first: Awaited<ReturnType<typeof ingest>>;
+      try {
+        first = await ingest(
+          "ext-msg-1",
+          "Do you ship to Canada?",
+          "channel-1",
+        );
+      } finally {
+        outage.mockRestore();
+      }
+      expect(first.embeddingPending).toBe(true);
+
+      const embedMany = embeddings.embedMany.bind(embeddings);
+      const locked = jest
+        .spyOn(embeddings, "embedMany")
+        .mockImplementation(async (texts) => {
+          // Would wait forever if the caller already held the row lock
+          await dbService.query(
+            `UPDATE messages SET visitor_username = 'Jane' WHERE id = $1`,
+            [first.messageId],
+          );
+          return embedMany(texts);
+        });
+      try {
+        const messages = app.get(MessagesService);
+        expect(await messages.processPendingEmbeddings()).toBe(1);
+
+        // An edit is embedded before the stored row is locked too
+        const edited = await ingest(
+          "ext-msg-1",
+          "Do you ship to Mexico?",
+          "channel-1",
+        );
+        expect(edited).toMatchObject({
+          outcome: "Updated",
+          embeddingPending: false,
+        });
+        expect(locked).toHaveBeenCalledTimes(2);
+      } finally {
+        locked.mockRestore();
+      }
+    });
+
+    it("should send the reply but save no template when no member is embedded", async () => {
+      const outage = jest
+        .spyOn(app.get(EmbeddingsService), "embedMany")
+        .mockRejectedValue(new EmbeddingUnavailableError("stub is down"));
+      let stored: Awaited<ReturnType<typeof ingest>>;
+      try {
+        stored = await ingest(
+          "ext-msg-1",
+          "What is your collaboration rate?",
+          "channel-1",
+        );
+      } finally {
+        outage.mockRestore();
+      }
+      expect(stored.embeddingPending).toBe(true);
+
+      const res = await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) { status }
+        }`,
+        {
+          clusterId: stored.clusterId,
+          response: "My rate is $500.",
+          channelIds: ["channel-1"],
+        },
+      );
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.actionCluster.status).toBe("Actioned");
+
+      const counts = await dbService.query<{
+        templates: number;
+        deliveries: number;
+      }>(
+        `SELECT
+           (SELECT COUNT(*)::int FROM response_templates WHERE creator_id = $1) AS templates,
+           (SELECT COUNT(*)::int FROM reply_deliveries WHERE creator_id = $1) AS deliveries`,
+        [CREATOR_ID],
+      );
+      expect(counts.rows[0]).toEqual({ templates: 0, deliveries: 1 });
+    });
+  });
+
+  describe("Creator Settings", () => {
+    const SETTINGS_FIELDS = `
+      creatorId
+      similarityThreshold
+      trigramThreshold
+      suggestionThreshold
+      suggestionLimit
+      minChannelCount
+      retainRawText
+      updatedAt
+    `;
+    const UPDATE = `mutation Update($input: UpdateCreatorSettingsInput!) {
+      updateCreatorSettings(input: $input) { ${SETTINGS_FIELDS} }
+    }`;
+    it("should return environment defaults when nothing is stored", async () => {
+      const res = await gql(
+        `query Settings($creatorId: ID!) {
+          creatorSettings(creatorId: $creatorId) { ${SETTINGS_FIELDS} }
+        }`,
+        { creatorId: CREATOR_ID },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.creatorSettings).toEqual({
+        creatorId: CREATOR_ID,
+        similarityThreshold: 0.75,
+        trigramThreshold: 0.85,
+        suggestionThreshold: 0.8,
+        suggestionLimit: 3,
+        minChannelCount: 0,
+        retainRawText: true,
+        updatedAt: null,
+      });
+    });
+
+    it("should only change the fields passed to an update", async () => {
+      await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, trigramThreshold: 0.9 },
+      });
+      const res = await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, suggestionLimit: 5 },
+      });
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.updateCreatorSettings.trigramThreshold).toBe(0.9);
+      expect(res.body.data.updateCreatorSettings.suggestionLimit).toBe(5);
+      expect(res.body.data.updateCreatorSettings.updatedAt).not.toBeNull();
+
+      // null resets a field to the default
+      const reset = await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, trigramThreshold: null },
+      });
+      expect(reset.body.data.updateCreatorSettings.trigramThreshold).toBe(0.85);
+      expect(reset.body.data.updateCreatorSettings.suggestionLimit).toBe(5);
+    });
+
+    it("should reject thresholds outside 0..1", async () => {
+      const res = await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, similarityThreshold: 1.5 },
+      });
+
+      expect(res.body.errors).toBeDefined();
+    });
+
+    it("should cluster with the creator's trigram threshold", async () => {
+      await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, trigramThreshold: 0.3 },
+      });
+
+      const first = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: "What is your collaboration rate?",
+          channelId: "channel-1",
+        },
+      });
+      const second = await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-2",
+          text: "What is your rate for a collaboration?",
+          channelId: "channel-2",
+        },
+      });
+
+      // Too far apart for the default cutoff, close enough for this creator
+      expect(second.body.errors).toBeUndefined();
+      expect(second.body.data.ingestMessage.clusterId).toBe(
+        first.body.data.ingestMessage.clusterId,
+      );
+    });
+
+    it("should apply the creator's minChannelCount when none is passed", async () => {
+      await gql(INGEST, {
+        input: {
+          creatorId: CREATOR_ID,
+          messageId: "ext-msg-1",
+          text: "What is your collaboration rate?",
+          channelId: "channel-1",
+        },
+      });
+      await gql(UPDATE, {
+        input: { creatorId: CREATOR_ID, minChannelCount: 2 },
+      });
+
+      const res = await gql(
+        `query ListClusters($creatorId: ID!) {
+          clusters(creatorId: $creatorId) { id }
+        }`,
+        { creatorId: CREATOR_ID },
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.clusters).toHaveLength(0);
+    });
+  });
+
+  describe("Background Workers", () => {
+    it("should skip ticks while the previous batch is still running", async () => {
+      let release!: () => void;
+      const run = jest.fn(
+        () => new Promise<void>((resolve) => (release = resolve)),
+      );
+      const poller = new IntervalPoller(
+        { get: () => "5" } as unknown as ConfigService,
+        new Logger("Test"),
+        { setting: "TEST_POLL_MS", defaultMs: 1000, name: "test worker", run },
+      );
+
+      poller.start();
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(run).toHaveBeenCalledTimes(1);
+
+        release();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(run.mock.calls.length).toBeGreaterThan(1);
+      } finally {
+        poller.stop();
+        release();
+      }
+    });
+  });
+
+  describe("Reply Delivery", () => {
+    let clusterId: string;
+
+    const DELIVERIES = `query Deliveries($clusterId: ID!) {
+      deliveries(clusterId: $clusterId) {
+        channelId
+        channelCid
+        responseText
+        status
+        attempts
+        lastError
+        deliveredAt
+      }
+    }`;
+
+    beforeEach(async () => {
+      for (const channel of ["channel-1", "channel-2"]) {
+        const res = await gql(
+          `mutation Ingest($input: IngestMessageInput!) {
+            ingestMessage(input: $input) { clusterId }
+          }`,
+          {
+            input: {
+              creatorId: CREATOR_ID,
+              messageId: `ext-${channel}`,
+              text: "What is your collaboration rate?",
+              channelId: channel,
+              channelCid: `messaging:${channel}`,
+            },
+          },
+        );
+        clusterId = res.body.data.ingestMessage.clusterId;
+      }
+    });
+
+    it("should queue and deliver one reply per actioned channel", async () => {
+      await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) { id }
+        }`,
+        {
+          clusterId,
+          response: "My rate is $500.",
+          channelIds: ["channel-1", "channel-2"],
+        },
+      );
+
+      await deliveriesService.processPending();
+
+      const res = await gql(DELIVERIES, { clusterId });
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.deliveries).toHaveLength(2);
+      for (const delivery of res.body.data.deliveries) {
+        expect(delivery.status).toBe("Delivered");
+        expect(delivery.responseText).toBe("My rate is $500.");
+        expect(delivery.deliveredAt).toBeTruthy();
+      }
+
+      expect(dispatcher.sent.map((reply) => reply.channelCid).sort()).toEqual([
+        "messaging:channel-1",
+        "messaging:channel-2",
+      ]);
+    });
+
+    it("should only queue replies for the selected channels", async () => {
+      await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) { id }
+        }`,
+        { clusterId, response: "My rate is $500.", channelIds: ["channel-2"] },
+      );
+
+      const res = await gql(DELIVERIES, { clusterId });
+      expect(
+        res.body.data.deliveries.map((d: { channelId: string }) => d.channelId),
+      ).toEqual(["channel-2"]);
+    });
+
+    it("should keep a failed delivery pending for retry", async () => {
+      await gql(
+        `mutation Action($clusterId: ID!, $response: String!, $channelIds: [String!]!) {
+          actionCluster(id: $clusterId, responseText: $response, channelIds: $channelIds) { id }
+        }`,
+        { clusterId, response: "My rate is $500.", channelIds: ["channel-1"] },
+      );
+
+      dispatcher.failNext(1);
+      await deliveriesService.processPending();
+
+      const res = await gql(DELIVERIES, { clusterId });
+      const [delivery] = res.body.data.deliveries;
+      expect(delivery.status).toBe("Pending");
+      expect(delivery.attempts).toBe(1);
+      expect(delivery.lastError).toContain("Simulated dispatch failure");
+      expect(delivery.deliveredAt).toBeNull();
+      expect(dispatcher.sent).toHaveLength(0);
+    });
+  });
+
   describe("Paid DM Exclusion", () => {
     it("should not cluster paid DMs with similar free messages", async () => {
       // Regular message
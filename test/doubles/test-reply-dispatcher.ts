@@ -0,0 +1,27 @@
+import { InMemoryReplyDispatcher } from "../../src/modules/deliveries/in-memory-reply-dispatcher";
+import { ReplyDispatch } from "../../src/modules/deliveries/reply-dispatcher";
+
+/**
+ * In-memory dispatcher that tests can make fail and clear between cases.
+ */
+export class TestReplyDispatcher extends InMemoryReplyDispatcher {
+  private failuresRemaining = 0;
+
+  async dispatch(reply: ReplyDispatch): Promise<void> {
+    if (this.failuresRemaining > 0) {
+      this.failuresRemaining -= 1;
+      throw new Error("Simulated dispatch failure");
+    }
+    await super.dispatch(reply);
+  }
+
+  // Make the next `count` dispatches throw (exercises the retry path)
+  failNext(count: number): void {
+    this.failuresRemaining = count;
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.failuresRemaining = 0;
+  }
+}
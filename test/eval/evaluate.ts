@@ -0,0 +1,80 @@
+import "reflect-metadata";
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { NestFactory } from "@nestjs/core";
+import { parseArgs } from "util";
+import { CacheModule } from "../../src/cache/cache.module";
+import { MessagesModule } from "../../src/modules/messages/messages.module";
+import { DEFAULT_DATASET, loadDataset, runEvaluation } from "./harness";
+
+/**
+ * Score clustering quality against a labeled dataset.
+ *
+ *   npm run eval -- [--dataset path.jsonl] [--similarity 0.7] [--trigram 0.8]
+ *                   [--min-ari 0.5] [--json]
+ *
+ * Exits non-zero when the adjusted Rand index is below --min-ari, so CI can
+ * gate on it. Use EMBEDDING_PROVIDER=stub to run without network.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    CacheModule,
+    MessagesModule,
+  ],
+})
+class EvaluateCliModule {}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string", default: DEFAULT_DATASET },
+      similarity: { type: "string" },
+      trigram: { type: "string" },
+      "min-ari": { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const app = await NestFactory.createApplicationContext(EvaluateCliModule, {
+    logger: ["error", "warn"],
+  });
+  try {
+    const metrics = await runEvaluation(app, loadDataset(values.dataset), {
+      similarityThreshold: values.similarity
+        ? Number(values.similarity)
+        : undefined,
+      trigramThreshold: values.trigram ? Number(values.trigram) : undefined,
+    });
+
+    if (values.json) {
+      console.log(JSON.stringify(metrics, null, 2));
+    } else {
+      console.log(
+        `Messages: ${metrics.messageCount}, labels: ${metrics.labelCount}, clusters: ${metrics.clusterCount}`,
+      );
+      console.log(
+        `Pairwise precision ${metrics.pairwisePrecision.toFixed(3)}, recall ${metrics.pairwiseRecall.toFixed(3)}, F1 ${metrics.pairwiseF1.toFixed(3)}`,
+      );
+      console.log(`Purity ${metrics.purity.toFixed(3)}`);
+      console.log(
+        `Adjusted Rand index ${metrics.adjustedRandIndex.toFixed(3)}`,
+      );
+    }
+
+    const minAri = values["min-ari"];
+    if (minAri !== undefined && metrics.adjustedRandIndex < Number(minAri)) {
+      console.error(
+        `Adjusted Rand index ${metrics.adjustedRandIndex.toFixed(3)} is below ${minAri}`,
+      );
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
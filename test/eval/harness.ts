@@ -0,0 +1,97 @@
+import { INestApplicationContext } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { DbService } from "../../src/db/db.service";
+import { CreatorSettingsService } from "../../src/modules/creator-settings/creator-settings.service";
+import { MessagesService } from "../../src/modules/messages/messages.service";
+import { PreviewSettingsInput } from "../../src/modules/messages/preview-settings.input";
+import { EvaluationMetrics, evaluateClusters } from "./metrics";
+
+export type LabeledMessage = {
+  text: string;
+  label: string;
+};
+
+// Matches the ingestMessages batch limit
+const BATCH_SIZE = 500;
+
+export const DEFAULT_DATASET = join(__dirname, "dataset.jsonl");
+
+export function loadDataset(path: string = DEFAULT_DATASET): LabeledMessage[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as LabeledMessage);
+}
+
+/**
+ * Ingest a labeled dataset under a throwaway creator, one channel per
+ * message, and score the resulting clusters against the labels.
+ * Everything written for the run is deleted afterwards.
+ */
+export async function runEvaluation(
+  app: INestApplicationContext,
+  dataset: LabeledMessage[],
+  thresholds: PreviewSettingsInput = {},
+): Promise<EvaluationMetrics> {
+  const db = app.get(DbService);
+  const creatorId = randomUUID();
+
+  try {
+    await app.get(CreatorSettingsService).updateSettings({
+      creatorId,
+      ...thresholds,
+    });
+
+    const messages = app.get(MessagesService);
+    for (let start = 0; start < dataset.length; start += BATCH_SIZE) {
+      const results = await messages.ingestMessages(
+        dataset.slice(start, start + BATCH_SIZE).map((message, offset) => ({
+          creatorId,
+          messageId: `eval-${start + offset}`,
+          text: message.text,
+          channelId: `eval-channel-${start + offset}`,
+        })),
+      );
+      const failed = results.find((item) => item.error);
+      if (failed) {
+        throw new Error(
+          `Message ${start + failed.index} failed: ${failed.error}`,
+        );
+      }
+    }
+
+    const assignments = await db.query<{
+      external_message_id: string;
+      cluster_id: string | null;
+    }>(
+      `
+        SELECT m.external_message_id, cm.cluster_id
+        FROM messages m
+        LEFT JOIN cluster_messages cm
+          ON cm.message_id = m.id
+        WHERE m.creator_id = $1
+      `,
+      [creatorId],
+    );
+    const clusterOf = new Map(
+      assignments.rows.map((row) => [
+        row.external_message_id,
+        // A message outside any cluster counts as a cluster of its own
+        row.cluster_id ?? row.external_message_id,
+      ]),
+    );
+
+    return evaluateClusters(
+      dataset.map((message) => message.label),
+      dataset.map((_, index) => clusterOf.get(`eval-${index}`)!),
+    );
+  } finally {
+    await db.query(`DELETE FROM clusters WHERE creator_id = $1`, [creatorId]);
+    await db.query(`DELETE FROM messages WHERE creator_id = $1`, [creatorId]);
+    await db.query(`DELETE FROM creator_settings WHERE creator_id = $1`, [
+      creatorId,
+    ]);
+  }
+}
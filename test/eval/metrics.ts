@@ -0,0 +1,78 @@
+/**
+ * External clustering metrics: compare predicted clusters against intent
+ * labels. `labels[i]` and `clusters[i]` describe the same message.
+ */
+export type EvaluationMetrics = {
+  messageCount: number;
+  labelCount: number;
+  clusterCount: number;
+  // Of the message pairs put in the same cluster, how many share a label
+  pairwisePrecision: number;
+  // Of the message pairs sharing a label, how many were put together
+  pairwiseRecall: number;
+  pairwiseF1: number;
+  // Share of messages that carry their cluster's majority label
+  purity: number;
+  // Rand index corrected for chance: 1 = identical partitions, ~0 = random
+  adjustedRandIndex: number;
+};
+
+const pairs = (n: number) => (n * (n - 1)) / 2;
+
+export function evaluateClusters(
+  labels: string[],
+  clusters: string[],
+): EvaluationMetrics {
+  if (labels.length !== clusters.length) {
+    throw new Error("Every message needs both a label and a cluster");
+  }
+
+  // Contingency table: cluster -> label -> message count
+  const table = new Map<string, Map<string, number>>();
+  const labelSizes = new Map<string, number>();
+  labels.forEach((label, index) => {
+    const row = table.get(clusters[index]) ?? new Map<string, number>();
+    row.set(label, (row.get(label) ?? 0) + 1);
+    table.set(clusters[index], row);
+    labelSizes.set(label, (labelSizes.get(label) ?? 0) + 1);
+  });
+
+  let samePairs = 0; // same cluster and same label
+  let clusterPairs = 0; // same cluster
+  let majorityTotal = 0;
+  for (const row of table.values()) {
+    const counts = Array.from(row.values());
+    samePairs += counts.reduce((sum, count) => sum + pairs(count), 0);
+    clusterPairs += pairs(counts.reduce((sum, count) => sum + count, 0));
+    majorityTotal += Math.max(...counts);
+  }
+  const labelPairs = Array.from(labelSizes.values()).reduce(
+    (sum, count) => sum + pairs(count),
+    0,
+  );
+
+  // No predicted (or no true) pairs: nothing was wrong, so score it as 1
+  const precision = clusterPairs === 0 ? 1 : samePairs / clusterPairs;
+  const recall = labelPairs === 0 ? 1 : samePairs / labelPairs;
+  const f1 =
+    precision + recall === 0
+      ? 0
+      : (2 * precision * recall) / (precision + recall);
+
+  const expected =
+    labels.length < 2 ? 0 : (clusterPairs * labelPairs) / pairs(labels.length);
+  const maximum = (clusterPairs + labelPairs) / 2;
+  const adjustedRandIndex =
+    maximum === expected ? 1 : (samePairs - expected) / (maximum - expected);
+
+  return {
+    messageCount: labels.length,
+    labelCount: labelSizes.size,
+    clusterCount: table.size,
+    pairwisePrecision: precision,
+    pairwiseRecall: recall,
+    pairwiseF1: f1,
+    purity: labels.length === 0 ? 1 : majorityTotal / labels.length,
+    adjustedRandIndex,
+  };
+}